@@ -1,20 +1,68 @@
 import {
+  InvalidArgumentError,
   LanguageModelV3CallOptions,
   LanguageModelV3Content,
+  LanguageModelV3FilePart,
   LanguageModelV3FinishReason,
+  LanguageModelV3ToolResultOutput,
+  SharedV3ProviderOptions,
   SharedV3Warning,
 } from '@ai-sdk/provider';
-import { ParseResult } from '@ai-sdk/provider-utils';
+import {
+  ParseResult,
+  convertBase64ToUint8Array,
+  convertUint8ArrayToBase64,
+} from '@ai-sdk/provider-utils';
 import { z } from 'zod';
-import { ChatAdapter, ParsedResponse, ParsedStreamChunk } from './types.js';
+import {
+  AnthropicProviderOptions,
+  PROVIDER_KEY,
+  anthropicProviderOptionsSchema,
+  applyExtraBody,
+  parseProviderOptions,
+} from './provider-options.js';
+import { ChatAdapter, ParsedResponse, ParsedStreamChunk, ParsedUsage } from './types.js';
 
 // ---------------------------------------------------------------------------
 // Wire types — Anthropic Messages API
 // ---------------------------------------------------------------------------
 
-type ContentBlock =
-  | { type: 'text'; text: string }
-  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> };
+type TextBlock = { type: 'text'; text: string };
+
+type ImageBlock = {
+  type: 'image';
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string };
+};
+
+type DocumentBlock = {
+  type: 'document';
+  source:
+    | { type: 'base64'; media_type: 'application/pdf'; data: string }
+    | { type: 'url'; url: string }
+    | { type: 'text'; media_type: 'text/plain'; data: string };
+  title?: string;
+};
+
+type CacheControl = { type: 'ephemeral'; ttl?: '5m' | '1h' };
+
+type ContentBlock = (
+  | TextBlock
+  | ImageBlock
+  | DocumentBlock
+  | { type: 'tool_use'; id: string; name: string; input: Record<string, unknown> }
+  | {
+      type: 'tool_result';
+      tool_use_id: string;
+      content: string | Array<TextBlock | ImageBlock | DocumentBlock>;
+      is_error?: boolean;
+    }
+  | { type: 'thinking'; thinking: string; signature: string }
+  | { type: 'redacted_thinking'; data: string }
+) & { cache_control?: CacheControl };
+
+type SystemBlock = TextBlock & { cache_control?: CacheControl };
 
 type ChatMessage =
   | { role: 'user'; content: string | ContentBlock[] }
@@ -27,6 +75,38 @@ type ToolUseBlock = {
   input: Record<string, unknown>;
 };
 
+// ---------------------------------------------------------------------------
+// Cache control
+//
+// Prompt-caching breakpoints are set per message, part or tool with
+// `providerOptions['azure-foundry'].cacheControl`.
+// ---------------------------------------------------------------------------
+
+const cacheControlSchema = z.object({
+  type: z.literal('ephemeral'),
+  ttl: z.enum(['5m', '1h']).optional(),
+});
+
+/**
+ * Reads `providerOptions['azure-foundry'].cacheControl` from a message, part
+ * or tool and returns it as a spreadable `cache_control` field.
+ */
+function cacheControlOf(
+  providerOptions: SharedV3ProviderOptions | undefined,
+): { cache_control?: CacheControl } {
+  const raw = providerOptions?.[PROVIDER_KEY]?.cacheControl;
+  if (raw == null) return {};
+  const result = cacheControlSchema.safeParse(raw);
+  if (!result.success) {
+    throw new InvalidArgumentError({
+      argument: `providerOptions.${PROVIDER_KEY}.cacheControl`,
+      message: `@nquandt/azure-ai-sdk: invalid cacheControl — ${result.error.message}`,
+      cause: result.error,
+    });
+  }
+  return { cache_control: result.data };
+}
+
 // ---------------------------------------------------------------------------
 // Zod schemas
 // ---------------------------------------------------------------------------
@@ -43,7 +123,23 @@ const toolUseContentBlockSchema = z.object({
   input: z.record(z.unknown()),
 });
 
-const contentBlockSchema = z.union([textContentBlockSchema, toolUseContentBlockSchema]);
+const thinkingContentBlockSchema = z.object({
+  type: z.literal('thinking'),
+  thinking: z.string(),
+  signature: z.string(),
+});
+
+const redactedThinkingContentBlockSchema = z.object({
+  type: z.literal('redacted_thinking'),
+  data: z.string(),
+});
+
+const contentBlockSchema = z.union([
+  textContentBlockSchema,
+  toolUseContentBlockSchema,
+  thinkingContentBlockSchema,
+  redactedThinkingContentBlockSchema,
+]);
 
 export const anthropicResponseSchema = z.object({
   id: z.string().nullish(),
@@ -57,6 +153,8 @@ export const anthropicResponseSchema = z.object({
     .object({
       input_tokens: z.number().nullish(),
       output_tokens: z.number().nullish(),
+      cache_creation_input_tokens: z.number().nullish(),
+      cache_read_input_tokens: z.number().nullish(),
     })
     .nullish(),
 });
@@ -75,6 +173,8 @@ const anthropicStreamMessageStartSchema = z.object({
       .object({
         input_tokens: z.number(),
         output_tokens: z.number(),
+        cache_creation_input_tokens: z.number().nullish(),
+        cache_read_input_tokens: z.number().nullish(),
       })
       .nullish(),
   }),
@@ -89,6 +189,9 @@ const anthropicStreamContentBlockStartSchema = z.object({
     id: z.string().optional(),
     name: z.string().optional(),
     input: z.unknown().optional(),
+    thinking: z.string().optional(),
+    signature: z.string().optional(),
+    data: z.string().optional(),
   }),
 });
 
@@ -98,6 +201,8 @@ const anthropicStreamContentBlockDeltaSchema = z.object({
   delta: z.union([
     z.object({ type: z.literal('text_delta'), text: z.string() }),
     z.object({ type: z.literal('input_json_delta'), partial_json: z.string() }),
+    z.object({ type: z.literal('thinking_delta'), thinking: z.string() }),
+    z.object({ type: z.literal('signature_delta'), signature: z.string() }),
   ]),
 });
 
@@ -144,13 +249,17 @@ type AnthropicChunk = z.infer<typeof anthropicChunkSchema>;
 // Shared helpers
 // ---------------------------------------------------------------------------
 
-function mapFinishReason(reason: string | null | undefined): LanguageModelV3FinishReason {
+function mapFinishReason(
+  reason: string | null | undefined,
+  isJsonResponse = false,
+): LanguageModelV3FinishReason {
   const raw = reason ?? undefined;
   const unified = ((): LanguageModelV3FinishReason['unified'] => {
     switch (reason) {
       case 'end_turn': return 'stop';
       case 'max_tokens': return 'length';
-      case 'tool_use': return 'tool-calls';
+      // In JSON mode the forced tool call *is* the answer
+      case 'tool_use': return isJsonResponse ? 'stop' : 'tool-calls';
       case 'stop_sequence': return 'stop';
       default: return 'other';
     }
@@ -158,17 +267,124 @@ function mapFinishReason(reason: string | null | undefined): LanguageModelV3Fini
   return { unified, raw };
 }
 
+type AnthropicInputUsage = {
+  input_tokens?: number | null;
+  cache_creation_input_tokens?: number | null;
+  cache_read_input_tokens?: number | null;
+};
+
+// Anthropic's input_tokens excludes cached tokens — fold them back in so
+// inputTokens is the full prompt size, as with the OpenAI adapters.
+function toParsedUsage(
+  usage: AnthropicInputUsage | null | undefined,
+  outputTokens: number | undefined,
+): ParsedUsage {
+  if (usage?.input_tokens == null) return { inputTokens: undefined, outputTokens };
+  const cacheWriteTokens = usage.cache_creation_input_tokens ?? undefined;
+  const cacheReadTokens = usage.cache_read_input_tokens ?? undefined;
+  return {
+    inputTokens: usage.input_tokens + (cacheWriteTokens ?? 0) + (cacheReadTokens ?? 0),
+    outputTokens,
+    cacheReadTokens,
+    cacheWriteTokens,
+  };
+}
+
+// Claude rejects unsigned thinking blocks, so signatures are round-tripped
+// through providerMetadata / providerOptions.
+function reasoningMetadata(block: { signature?: string; data?: string }) {
+  return {
+    [PROVIDER_KEY]: block.data != null
+      ? { redactedData: block.data }
+      : { signature: block.signature ?? '' },
+  };
+}
+
+function readReasoningOptions(
+  providerOptions: SharedV3ProviderOptions | undefined,
+): { signature?: string; redactedData?: string } {
+  const opts = providerOptions?.[PROVIDER_KEY] as Record<string, unknown> | undefined;
+  return {
+    signature: typeof opts?.signature === 'string' ? opts.signature : undefined,
+    redactedData: typeof opts?.redactedData === 'string' ? opts.redactedData : undefined,
+  };
+}
+
+// Media types Claude accepts as image blocks
+const SUPPORTED_IMAGE_TYPES = new Set(['image/jpeg', 'image/png', 'image/gif', 'image/webp']);
+
+function toFileBlock(part: LanguageModelV3FilePart): ImageBlock | DocumentBlock | undefined {
+  const { data, mediaType } = part;
+  const title = part.filename ? { title: part.filename } : {};
+
+  if (SUPPORTED_IMAGE_TYPES.has(mediaType) || (mediaType === 'image/*' && data instanceof URL)) {
+    return {
+      type: 'image',
+      source: data instanceof URL
+        ? { type: 'url', url: data.href }
+        : { type: 'base64', media_type: mediaType, data: toBase64(data) },
+    };
+  }
+
+  if (mediaType === 'application/pdf') {
+    return {
+      type: 'document',
+      source: data instanceof URL
+        ? { type: 'url', url: data.href }
+        : { type: 'base64', media_type: 'application/pdf', data: toBase64(data) },
+      ...title,
+    };
+  }
+
+  // Plain-text documents are sent inline; Claude only fetches PDFs by URL
+  if (mediaType === 'text/plain' && !(data instanceof URL)) {
+    const bytes = typeof data === 'string' ? convertBase64ToUint8Array(data) : data;
+    return {
+      type: 'document',
+      source: { type: 'text', media_type: 'text/plain', data: new TextDecoder().decode(bytes) },
+      ...title,
+    };
+  }
+
+  return undefined;
+}
+
+// Message-level cacheControl marks the end of the message, i.e. its last block
+function applyMessageCacheControl(
+  content: ContentBlock[],
+  providerOptions: SharedV3ProviderOptions | undefined,
+): void {
+  const cacheControl = cacheControlOf(providerOptions);
+  const last = content[content.length - 1];
+  if (last && cacheControl.cache_control && last.cache_control == null) {
+    last.cache_control = cacheControl.cache_control;
+  }
+}
+
+function toBase64(data: string | Uint8Array): string {
+  return typeof data === 'string' ? data : convertUint8ArrayToBase64(data);
+}
+
 function convertToAnthropicMessages(
   prompt: LanguageModelV3CallOptions['prompt'],
-): { messages: ChatMessage[]; system: string | undefined } {
+): {
+  messages: ChatMessage[];
+  system: string | SystemBlock[] | undefined;
+  warnings: SharedV3Warning[];
+} {
   const messages: ChatMessage[] = [];
-  let systemPrompt: string | undefined;
+  const warnings: SharedV3Warning[] = [];
+  const systemBlocks: SystemBlock[] = [];
 
   for (const message of prompt) {
     switch (message.role) {
       case 'system': {
         // Anthropic expects system as a separate parameter, not a message
-        systemPrompt = message.content;
+        systemBlocks.push({
+          type: 'text',
+          text: message.content,
+          ...cacheControlOf(message.providerOptions),
+        });
         break;
       }
 
@@ -176,27 +392,20 @@ function convertToAnthropicMessages(
         const content: ContentBlock[] = [];
         for (const part of message.content) {
           if (part.type === 'text') {
-            content.push({ type: 'text', text: part.text });
+            content.push({ type: 'text', text: part.text, ...cacheControlOf(part.providerOptions) });
           } else if (part.type === 'file') {
-            const { data, mediaType } = part;
-            // Anthropic supports images via base64 URLs
-            if (mediaType.startsWith('image/')) {
-              let base64Data: string;
-              if (data instanceof URL) {
-                // For URLs, we'd need to fetch them; for now, treat as external
-                content.push({ type: 'text', text: `[Image URL: ${data.href}]` });
-              } else if (typeof data === 'string') {
-                base64Data = data;
-              } else {
-                base64Data = Buffer.from(data).toString('base64');
-              }
-              if (typeof data !== 'string' && !(data instanceof URL)) {
-                // Image blocks would go here, but Anthropic's model format differs
-                content.push({ type: 'text', text: `[Image: ${mediaType}]` });
-              }
+            const block = toFileBlock(part);
+            if (block) {
+              content.push({ ...block, ...cacheControlOf(part.providerOptions) });
+            } else {
+              warnings.push({
+                type: 'unsupported',
+                feature: `file part with media type ${part.mediaType}`,
+              });
             }
           }
         }
+        applyMessageCacheControl(content, message.providerOptions);
         messages.push({ role: 'user', content });
         break;
       }
@@ -204,96 +413,240 @@ function convertToAnthropicMessages(
       case 'assistant': {
         const content: ContentBlock[] = [];
         let textContent = '';
+        let textCacheControl: { cache_control?: CacheControl } = {};
+        const flushText = () => {
+          if (textContent) {
+            content.push({ type: 'text', text: textContent, ...textCacheControl });
+          }
+          textContent = '';
+          textCacheControl = {};
+        };
 
         for (const part of message.content) {
           switch (part.type) {
             case 'text':
               textContent += part.text;
+              textCacheControl = { ...textCacheControl, ...cacheControlOf(part.providerOptions) };
               break;
-            case 'tool-call':
-              if (textContent) {
-                content.push({ type: 'text', text: textContent });
-                textContent = '';
+            case 'reasoning': {
+              // Signed thinking blocks must be sent back verbatim for Claude to
+              // continue a tool-use turn; unsigned reasoning (e.g. from another
+              // model family) cannot be replayed and is dropped.
+              const { signature, redactedData } = readReasoningOptions(part.providerOptions);
+              flushText();
+              if (redactedData != null) {
+                content.push({ type: 'redacted_thinking', data: redactedData });
+              } else if (signature) {
+                content.push({ type: 'thinking', thinking: part.text, signature });
               }
+              break;
+            }
+            case 'tool-call':
+              flushText();
               content.push({
                 type: 'tool_use',
                 id: part.toolCallId,
                 name: part.toolName,
                 input: typeof part.input === 'string' ? JSON.parse(part.input) : part.input,
+                ...cacheControlOf(part.providerOptions),
               });
               break;
           }
         }
 
-        if (textContent) {
-          content.push({ type: 'text', text: textContent });
-        }
-
+        flushText();
+        applyMessageCacheControl(content, message.providerOptions);
         messages.push({ role: 'assistant', content });
         break;
       }
 
       case 'tool': {
+        // Claude expects every tool_result answering one assistant turn in a
+        // single user message, so consecutive tool messages share one turn.
+        const previous = messages[messages.length - 1];
+        const content: ContentBlock[] =
+          previous?.role === 'user' && Array.isArray(previous.content) &&
+          previous.content.every((block) => block.type === 'tool_result')
+            ? previous.content
+            : [];
         for (const part of message.content) {
           if (part.type !== 'tool-result') continue;
-          const content: string = toolResultToString(part.output as unknown as { type: string; value?: unknown });
-          messages.push({
-            role: 'user',
-            content: [
-              {
-                type: 'text',
-                text: `Tool result from ${part.toolCallId}: ${content}`,
-              },
-            ],
+          content.push({
+            ...toToolResultBlock(part.toolCallId, part.output, warnings),
+            ...cacheControlOf(part.providerOptions),
           });
         }
+        applyMessageCacheControl(content, message.providerOptions);
+        if (content.length > 0 && previous?.content !== content) {
+          messages.push({ role: 'user', content });
+        }
         break;
       }
     }
   }
 
-  return { messages, system: systemPrompt };
+  // A plain string is enough unless a system message carries a cache breakpoint
+  const system = systemBlocks.some((block) => block.cache_control != null)
+    ? systemBlocks
+    : systemBlocks.map((block) => block.text).join('\n\n') || undefined;
+
+  return { messages, system, warnings };
 }
 
-function toolResultToString(output: { type: string; value?: unknown }): string {
-  if (output.type === 'text' || output.type === 'error-text') {
-    return String(output.value ?? '');
-  }
-  if (output.type === 'json' || output.type === 'error-json') {
-    return JSON.stringify(output.value);
-  }
-  if (output.type === 'content' && Array.isArray(output.value)) {
-    return (output.value as { type: string; text?: string }[])
-      .map((p) => p.text ?? '')
-      .join('');
+function toToolResultBlock(
+  toolUseId: string,
+  output: LanguageModelV3ToolResultOutput,
+  warnings: SharedV3Warning[],
+): ContentBlock {
+  switch (output.type) {
+    case 'text':
+      return { type: 'tool_result', tool_use_id: toolUseId, content: output.value };
+    case 'json':
+      return { type: 'tool_result', tool_use_id: toolUseId, content: JSON.stringify(output.value) };
+    case 'error-text':
+      return { type: 'tool_result', tool_use_id: toolUseId, content: output.value, is_error: true };
+    case 'error-json':
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUseId,
+        content: JSON.stringify(output.value),
+        is_error: true,
+      };
+    case 'execution-denied':
+      return {
+        type: 'tool_result',
+        tool_use_id: toolUseId,
+        content: output.reason ?? 'Tool execution denied.',
+        is_error: true,
+      };
+    case 'content': {
+      const content: Array<TextBlock | ImageBlock | DocumentBlock> = [];
+      for (const item of output.value) {
+        switch (item.type) {
+          case 'text':
+            content.push({ type: 'text', text: item.text });
+            continue;
+          case 'image-data':
+            content.push({ type: 'image', source: { type: 'base64', media_type: item.mediaType, data: item.data } });
+            continue;
+          case 'image-url':
+            content.push({ type: 'image', source: { type: 'url', url: item.url } });
+            continue;
+          case 'file-data':
+            if (item.mediaType.startsWith('image/')) {
+              content.push({ type: 'image', source: { type: 'base64', media_type: item.mediaType, data: item.data } });
+              continue;
+            }
+            if (item.mediaType === 'application/pdf') {
+              content.push({
+                type: 'document',
+                source: { type: 'base64', media_type: 'application/pdf', data: item.data },
+                ...(item.filename ? { title: item.filename } : {}),
+              });
+              continue;
+            }
+            warnings.push({
+              type: 'unsupported',
+              feature: `tool result file with media type ${item.mediaType}`,
+            });
+            continue;
+        }
+        // Anything else would reach Claude as raw JSON (base64 and all) — drop it
+        warnings.push({ type: 'unsupported', feature: `tool result content of type ${item.type}` });
+      }
+      return { type: 'tool_result', tool_use_id: toolUseId, content };
+    }
   }
-  return JSON.stringify(output);
 }
 
-function buildTools(options: LanguageModelV3CallOptions): {
+function buildToolsAndChoice(
+  options: LanguageModelV3CallOptions,
+  providerOptions: AnthropicProviderOptions,
+): {
   tools: unknown;
+  toolChoice: unknown;
   warnings: SharedV3Warning[];
 } {
   const warnings: SharedV3Warning[] = [];
   let tools: unknown;
+  let toolChoice: Record<string, unknown> | undefined;
 
-  if (options.topK != null) warnings.push({ type: 'unsupported', feature: 'topK' });
   if (options.presencePenalty != null) warnings.push({ type: 'unsupported', feature: 'presencePenalty' });
   if (options.frequencyPenalty != null) warnings.push({ type: 'unsupported', feature: 'frequencyPenalty' });
 
   if (options.tools && options.tools.length > 0) {
+    for (const t of options.tools) {
+      if (t.type !== 'function') {
+        warnings.push({ type: 'unsupported', feature: `provider-defined tool ${t.id}` });
+      }
+    }
     tools = options.tools
       .filter((t) => t.type === 'function')
       .map((t) => ({
         name: t.name,
         description: t.description,
-        input_schema: (t as { inputSchema?: unknown }).inputSchema,
+        input_schema: t.inputSchema,
+        ...cacheControlOf(t.providerOptions),
       }));
   }
 
-  return { tools, warnings };
+  const disableParallelToolUse = providerOptions.disableParallelToolUse;
+
+  if (tools == null) {
+    if (options.toolChoice != null && options.toolChoice.type !== 'auto') {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'toolChoice',
+        details: `toolChoice '${options.toolChoice.type}' is ignored because no tools were provided.`,
+      });
+    }
+    return { tools, toolChoice: undefined, warnings };
+  }
+
+  const tc = options.toolChoice;
+  if (tc?.type === 'none') {
+    toolChoice = { type: 'none' };
+  } else if (tc?.type === 'required') {
+    toolChoice = { type: 'any' };
+  } else if (tc?.type === 'tool') {
+    toolChoice = { type: 'tool', name: tc.toolName };
+  } else if (tc?.type === 'auto' || disableParallelToolUse != null) {
+    toolChoice = { type: 'auto' };
+  }
+
+  // Claude only allows `auto` / `none` while extended thinking is enabled
+  if (
+    providerOptions.thinking?.type === 'enabled' &&
+    (toolChoice?.type === 'any' || toolChoice?.type === 'tool')
+  ) {
+    warnings.push({
+      type: 'unsupported',
+      feature: 'toolChoice',
+      details: `toolChoice '${tc?.type}' cannot be combined with extended thinking; using 'auto' instead.`,
+    });
+    toolChoice = { type: 'auto' };
+  }
+
+  if (disableParallelToolUse != null && toolChoice != null) {
+    if (toolChoice.type === 'none') {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'disableParallelToolUse',
+        details: "disableParallelToolUse has no effect with toolChoice 'none'.",
+      });
+    } else {
+      toolChoice.disable_parallel_tool_use = disableParallelToolUse;
+    }
+  }
+
+  return { tools, toolChoice, warnings };
 }
 
+// Claude has no native JSON mode: structured output is produced by forcing a
+// call to a synthetic tool whose input schema is the response schema, then
+// surfacing the tool input as text.
+const JSON_RESPONSE_TOOL_NAME = 'json';
+
 // ---------------------------------------------------------------------------
 // Anthropic adapter (Messages API for Azure Foundry)
 // ---------------------------------------------------------------------------
@@ -307,14 +660,26 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
 
   // Required by the Anthropic API
   readonly additionalHeaders = { 'anthropic-version': '2023-06-01' };
+
+  // Claude fetches image and PDF URLs itself
+  readonly supportedUrls = { 'image/*': [/^https?:\/\//], 'application/pdf': [/^https?:\/\//] };
+
   private finishReason: LanguageModelV3FinishReason = { unified: 'other', raw: undefined };
-  private inputTokens: number | undefined;
+  private inputUsage: AnthropicInputUsage | undefined;
   private outputTokens: number | undefined;
   private readonly toolCallAccumulators = new Map<
     number,
     { id: string; name: string; inputJson: string }
   >();
   private readonly openTextIds = new Set<string>();
+  private readonly reasoningBlocks = new Map<number, { signature?: string; data?: string }>();
+  private readonly jsonTextIds = new Map<number, string>();
+  private usesJsonResponseTool = false;
+  // With tool_choice 'auto' Claude may answer in prose instead of calling the
+  // JSON tool; streamed text is held back until it is clear which one it did.
+  private jsonResponseToolOptional = false;
+  private jsonResponseToolCalled = false;
+  private readonly heldTexts = new Map<number, string>();
   private readonly generateId: () => string;
 
   constructor(generateId: () => string) {
@@ -326,36 +691,120 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
     modelId: string,
     modelInBody: boolean,
   ): { body: Record<string, unknown>; warnings: SharedV3Warning[] } {
-    const { tools, warnings } = buildTools(options);
-    const { messages, system } = convertToAnthropicMessages(options.prompt);
+    const warnings: SharedV3Warning[] = [];
+    const providerOptions = parseProviderOptions(
+      options.providerOptions,
+      anthropicProviderOptionsSchema,
+      warnings,
+    );
+    const { tools: functionTools, toolChoice: functionToolChoice, warnings: toolWarnings } =
+      buildToolsAndChoice(options, providerOptions);
+    warnings.push(...toolWarnings);
+    let tools = functionTools;
+    let toolChoice = functionToolChoice;
+
+    if (options.responseFormat?.type === 'json') {
+      if (options.responseFormat.schema == null) {
+        warnings.push({
+          type: 'unsupported',
+          feature: 'responseFormat',
+          details: 'JSON response format requires a schema for Claude models. The response format is ignored.',
+        });
+      } else {
+        if (functionTools != null) {
+          warnings.push({
+            type: 'other',
+            message: 'Tools are not sent while a JSON response format with a schema is requested.',
+          });
+        }
+        tools = [{
+          name: JSON_RESPONSE_TOOL_NAME,
+          description: options.responseFormat.description ?? 'Respond with a JSON object.',
+          input_schema: options.responseFormat.schema,
+        }];
+        // Forcing the tool is rejected while extended thinking is enabled, as in
+        // buildToolsAndChoice; Claude is left to call it on its own.
+        if (providerOptions.thinking?.type === 'enabled') {
+          warnings.push({
+            type: 'other',
+            message: "The JSON response tool cannot be forced while extended thinking is enabled; using tool_choice 'auto' instead.",
+          });
+          toolChoice = { type: 'auto' };
+          this.jsonResponseToolOptional = true;
+        } else {
+          toolChoice = { type: 'tool', name: JSON_RESPONSE_TOOL_NAME };
+        }
+        this.usesJsonResponseTool = true;
+      }
+    }
+
+    const { messages, system, warnings: messageWarnings } = convertToAnthropicMessages(options.prompt);
+    warnings.push(...messageWarnings);
 
     // Suppress temperature/top_p of 0
-    const explicitTemperature = options.temperature !== 0 ? options.temperature : undefined;
-    const explicitTopP = options.topP !== 0 ? options.topP : undefined;
+    let explicitTemperature = options.temperature !== 0 ? options.temperature : undefined;
+    let explicitTopP = options.topP !== 0 ? options.topP : undefined;
+    let topK = providerOptions.topK ?? options.topK;
+    let maxTokens = options.maxOutputTokens ?? 4096;
+
+    let thinking: unknown;
+    if (providerOptions.thinking?.type === 'enabled') {
+      const budgetTokens = providerOptions.thinking.budgetTokens;
+      if (budgetTokens == null) {
+        throw new InvalidArgumentError({
+          argument: `providerOptions.${PROVIDER_KEY}.thinking.budgetTokens`,
+          message: '@nquandt/azure-ai-sdk: `budgetTokens` is required when thinking is enabled.',
+        });
+      }
+      thinking = { type: 'enabled', budget_tokens: budgetTokens };
+      // The thinking budget counts against max_tokens — add it on top so the
+      // caller's maxOutputTokens still applies to the visible answer.
+      maxTokens += budgetTokens;
+
+      // Claude rejects sampling overrides while thinking is enabled
+      if (explicitTemperature != null) {
+        warnings.push({ type: 'unsupported', feature: 'temperature', details: 'temperature is not supported when thinking is enabled' });
+        explicitTemperature = undefined;
+      }
+      if (explicitTopP != null) {
+        warnings.push({ type: 'unsupported', feature: 'topP', details: 'topP is not supported when thinking is enabled' });
+        explicitTopP = undefined;
+      }
+      if (topK != null) {
+        warnings.push({ type: 'unsupported', feature: 'topK', details: 'topK is not supported when thinking is enabled' });
+        topK = undefined;
+      }
+    }
 
     const body: Record<string, unknown> = {
       ...(modelInBody ? { model: modelId } : {}),
       messages,
-      max_tokens: options.maxOutputTokens ?? 4096,
+      max_tokens: maxTokens,
       temperature: explicitTemperature,
       top_p: explicitTopP,
+      top_k: topK,
+      ...(thinking != null ? { thinking } : {}),
       ...(system ? { system } : {}),
       ...(tools != null ? { tools } : {}),
+      ...(toolChoice != null ? { tool_choice: toolChoice } : {}),
     };
 
-    for (const key of Object.keys(body)) {
-      if (body[key] === undefined) delete body[key];
-    }
-
-    return { body, warnings };
+    return { body: applyExtraBody(body, providerOptions.extraBody), warnings };
   }
 
   parseResponse(raw: AnthropicResponse): ParsedResponse {
     const content: LanguageModelV3Content[] = [];
+    // Claude may preface the JSON tool call with prose; only the tool input is
+    // the JSON answer. Without a tool call the prose is all there is.
+    const dropText =
+      this.usesJsonResponseTool &&
+      (!this.jsonResponseToolOptional || raw.content.some((block) => block.type === 'tool_use'));
 
     for (const block of raw.content) {
       if (block.type === 'text') {
-        content.push({ type: 'text', text: block.text });
+        if (!dropText) content.push({ type: 'text', text: block.text });
+      } else if (block.type === 'tool_use' && this.usesJsonResponseTool) {
+        content.push({ type: 'text', text: JSON.stringify(block.input) });
       } else if (block.type === 'tool_use') {
         content.push({
           type: 'tool-call',
@@ -363,16 +812,25 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
           toolName: block.name,
           input: JSON.stringify(block.input),
         });
+      } else if (block.type === 'thinking') {
+        content.push({
+          type: 'reasoning',
+          text: block.thinking,
+          providerMetadata: reasoningMetadata(block),
+        });
+      } else if (block.type === 'redacted_thinking') {
+        content.push({
+          type: 'reasoning',
+          text: '',
+          providerMetadata: reasoningMetadata(block),
+        });
       }
     }
 
     return {
       content,
-      finishReason: mapFinishReason(raw.stop_reason),
-      usage: {
-        inputTokens: raw.usage?.input_tokens ?? undefined,
-        outputTokens: raw.usage?.output_tokens ?? undefined,
-      },
+      finishReason: mapFinishReason(raw.stop_reason, this.usesJsonResponseTool),
+      usage: toParsedUsage(raw.usage, raw.usage?.output_tokens ?? undefined),
     };
   }
 
@@ -385,14 +843,25 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
     switch (value.type) {
       case 'message_start': {
         if (value.message.usage) {
-          this.inputTokens = value.message.usage.input_tokens;
+          this.inputUsage = value.message.usage;
         }
         break;
       }
 
       case 'content_block_start': {
         const idx = value.index;
-        if (value.content_block.type === 'text') {
+        if (this.usesJsonResponseTool && value.content_block.type === 'tool_use') {
+          const textId = `text-${idx}`;
+          this.jsonTextIds.set(idx, textId);
+          this.jsonResponseToolCalled = true;
+          this.heldTexts.clear();
+          parts.push({ type: 'text-start', id: textId });
+        } else if (this.usesJsonResponseTool && value.content_block.type === 'text') {
+          // Prose before the JSON tool call is dropped, as in parseResponse
+          if (this.jsonResponseToolOptional && !this.jsonResponseToolCalled) {
+            this.heldTexts.set(idx, '');
+          }
+        } else if (value.content_block.type === 'text') {
           const textId = `text-${idx}`;
           this.openTextIds.add(textId);
           parts.push({ type: 'text-start', id: textId });
@@ -405,6 +874,12 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
             inputJson: '',
           });
           parts.push({ type: 'tool-input-start', id: toolId, toolName });
+        } else if (value.content_block.type === 'thinking') {
+          this.reasoningBlocks.set(idx, {});
+          parts.push({ type: 'reasoning-start', id: `reasoning-${idx}` });
+        } else if (value.content_block.type === 'redacted_thinking') {
+          this.reasoningBlocks.set(idx, { data: value.content_block.data ?? '' });
+          parts.push({ type: 'reasoning-start', id: `reasoning-${idx}` });
         }
         break;
       }
@@ -415,19 +890,44 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
 
         if (delta.type === 'text_delta') {
           const textId = `text-${idx}`;
-          parts.push({ type: 'text-delta', id: textId, delta: delta.text });
+          if (this.openTextIds.has(textId)) {
+            parts.push({ type: 'text-delta', id: textId, delta: delta.text });
+          } else if (this.heldTexts.has(idx)) {
+            this.heldTexts.set(idx, this.heldTexts.get(idx)! + delta.text);
+          }
+        } else if (delta.type === 'input_json_delta' && this.jsonTextIds.has(idx)) {
+          parts.push({ type: 'text-delta', id: this.jsonTextIds.get(idx)!, delta: delta.partial_json });
         } else if (delta.type === 'input_json_delta') {
           const acc = this.toolCallAccumulators.get(idx);
           if (acc) {
             acc.inputJson += delta.partial_json;
             parts.push({ type: 'tool-input-delta', id: acc.id, delta: delta.partial_json });
           }
+        } else if (delta.type === 'thinking_delta') {
+          parts.push({ type: 'reasoning-delta', id: `reasoning-${idx}`, delta: delta.thinking });
+        } else if (delta.type === 'signature_delta') {
+          const block = this.reasoningBlocks.get(idx);
+          if (block) block.signature = (block.signature ?? '') + delta.signature;
         }
         break;
       }
 
       case 'content_block_stop': {
         const idx = value.index;
+        const jsonTextId = this.jsonTextIds.get(idx);
+        if (jsonTextId) {
+          this.jsonTextIds.delete(idx);
+          parts.push({ type: 'text-end', id: jsonTextId });
+        }
+        const reasoning = this.reasoningBlocks.get(idx);
+        if (reasoning) {
+          this.reasoningBlocks.delete(idx);
+          parts.push({
+            type: 'reasoning-end',
+            id: `reasoning-${idx}`,
+            providerMetadata: reasoningMetadata(reasoning),
+          });
+        }
         const acc = this.toolCallAccumulators.get(idx);
         if (acc) {
           const textId = `text-${idx}`;
@@ -440,7 +940,7 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
 
       case 'message_delta': {
         if (value.delta.stop_reason) {
-          this.finishReason = mapFinishReason(value.delta.stop_reason);
+          this.finishReason = mapFinishReason(value.delta.stop_reason, this.usesJsonResponseTool);
         }
         if (value.usage) {
           this.outputTokens = value.usage.output_tokens;
@@ -460,7 +960,15 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
   flush(): ParsedStreamChunk[] {
     const parts: ParsedStreamChunk[] = [];
 
-    for (const textId of this.openTextIds) {
+    for (const [idx, reasoning] of this.reasoningBlocks) {
+      parts.push({
+        type: 'reasoning-end',
+        id: `reasoning-${idx}`,
+        providerMetadata: reasoningMetadata(reasoning),
+      });
+    }
+
+    for (const textId of [...this.openTextIds, ...this.jsonTextIds.values()]) {
       parts.push({ type: 'text-end', id: textId });
     }
 
@@ -469,10 +977,18 @@ export class AnthropicAdapter implements ChatAdapter<AnthropicResponse, Anthropi
       parts.push({ type: 'tool-call', toolCallId: acc.id, toolName: acc.name, input: acc.inputJson });
     }
 
+    // Claude answered in prose without calling the optional JSON tool
+    for (const [idx, text] of this.heldTexts) {
+      const textId = `text-${idx}`;
+      parts.push({ type: 'text-start', id: textId });
+      parts.push({ type: 'text-delta', id: textId, delta: text });
+      parts.push({ type: 'text-end', id: textId });
+    }
+
     parts.push({
       type: 'finish',
       finishReason: this.finishReason,
-      usage: { inputTokens: this.inputTokens, outputTokens: this.outputTokens },
+      usage: toParsedUsage(this.inputUsage, this.outputTokens),
     });
 
     return parts;
@@ -1,13 +1,15 @@
 import { generateId } from '@ai-sdk/provider-utils';
-import { AdapterType, ChatAdapter } from './types.js';
+import { AdapterSettings, AdapterType, ChatAdapter } from './types.js';
 import { OpenAIAdapter } from './openai-adapter.js';
 import { OpenAILegacyAdapter } from './openai-legacy-adapter.js';
+import { OpenAIResponsesAdapter } from './openai-responses-adapter.js';
 import { AnthropicAdapter } from './anthropic-adapter.js';
 
 export { OpenAIAdapter } from './openai-adapter.js';
 export { OpenAILegacyAdapter } from './openai-legacy-adapter.js';
+export { OpenAIResponsesAdapter } from './openai-responses-adapter.js';
 export { AnthropicAdapter } from './anthropic-adapter.js';
-export type { AdapterType, ChatAdapter } from './types.js';
+export type { AdapterSettings, AdapterType, ChatAdapter, ParsedUsage } from './types.js';
 
 // ---------------------------------------------------------------------------
 // Model ID heuristics
@@ -20,6 +22,8 @@ export type { AdapterType, ChatAdapter } from './types.js';
 //   openai       — o-series reasoning models and gpt-5+ family use
 //                  max_completion_tokens and reject temperature=0
 //   openai-legacy — gpt-4o, gpt-4, gpt-35-turbo use max_tokens
+//   openai-responses — codex and *-pro deployments are only served by the
+//                  v1 Responses API, not chat completions
 //   anthropic    — claude-* models use the Anthropic Messages API format
 //
 // When new model families are added (Mistral, etc.) the heuristic
@@ -32,6 +36,11 @@ const OPENAI_PATTERNS = [
   /^gpt-4\.5/i,      // gpt-4.5-preview
 ];
 
+const OPENAI_RESPONSES_PATTERNS = [
+  /codex/i,          // gpt-5-codex, codex-mini, …
+  /^o\d+-pro/i,      // o1-pro, o3-pro
+];
+
 const OPENAI_LEGACY_PATTERNS = [
   /^gpt-4o/i,        // gpt-4o, gpt-4o-mini
   /^gpt-4/i,         // gpt-4, gpt-4-turbo
@@ -44,13 +53,17 @@ const ANTHROPIC_PATTERNS = [
   /^claude/i,        // claude-opus, claude-sonnet, claude-haiku, etc.
 ];
 
-function detectAdapterType(modelId: string): AdapterType {
+export function detectAdapterType(modelId: string): AdapterType {
   const id = modelId.toLowerCase();
 
   for (const pattern of ANTHROPIC_PATTERNS) {
     if (pattern.test(id)) return 'anthropic';
   }
 
+  for (const pattern of OPENAI_RESPONSES_PATTERNS) {
+    if (pattern.test(id)) return 'openai-responses';
+  }
+
   for (const pattern of OPENAI_LEGACY_PATTERNS) {
     if (pattern.test(id)) return 'openai-legacy';
   }
@@ -80,14 +93,17 @@ export function resolveAdapter(
   modelId: string,
   adapterType: AdapterType | undefined,
   idGenerator: () => string = generateId,
+  settings: AdapterSettings = {},
 ): ChatAdapter {
   const resolved = adapterType ?? detectAdapterType(modelId);
 
   switch (resolved) {
     case 'openai':
-      return new OpenAIAdapter(idGenerator);
+      return new OpenAIAdapter(idGenerator, settings);
     case 'openai-legacy':
-      return new OpenAILegacyAdapter(idGenerator);
+      return new OpenAILegacyAdapter(idGenerator, settings);
+    case 'openai-responses':
+      return new OpenAIResponsesAdapter(idGenerator, settings);
     case 'anthropic':
       return new AnthropicAdapter(idGenerator);
     default: {
@@ -1,11 +1,18 @@
 import {
+  JSONObject,
   LanguageModelV3CallOptions,
   LanguageModelV3FinishReason,
+  SharedV3ProviderMetadata,
   SharedV3Warning,
 } from '@ai-sdk/provider';
 import { ParseResult } from '@ai-sdk/provider-utils';
 import { z } from 'zod';
-import { ChatAdapter, ParsedResponse, ParsedStreamChunk } from './types.js';
+import {
+  applyExtraBody,
+  openAIProviderOptionsSchema,
+  parseProviderOptions,
+} from './provider-options.js';
+import { AdapterSettings, ChatAdapter, ParsedResponse, ParsedStreamChunk, ParsedUsage } from './types.js';
 
 // ---------------------------------------------------------------------------
 // Wire types
@@ -31,6 +38,32 @@ type ToolCallRequest = {
 // Zod schemas
 // ---------------------------------------------------------------------------
 
+// passthrough() keeps any fields Azure adds so the raw usage surfaced in
+// provider metadata is complete.
+const openAIUsageSchema = z
+  .object({
+    prompt_tokens: z.number().nullish(),
+    completion_tokens: z.number().nullish(),
+    total_tokens: z.number().nullish(),
+    prompt_tokens_details: z
+      .object({
+        cached_tokens: z.number().nullish(),
+        audio_tokens: z.number().nullish(),
+      })
+      .passthrough()
+      .nullish(),
+    completion_tokens_details: z
+      .object({
+        reasoning_tokens: z.number().nullish(),
+        audio_tokens: z.number().nullish(),
+        accepted_prediction_tokens: z.number().nullish(),
+        rejected_prediction_tokens: z.number().nullish(),
+      })
+      .passthrough()
+      .nullish(),
+  })
+  .passthrough();
+
 const toolCallSchema = z.object({
   id: z.string(),
   type: z.literal('function'),
@@ -53,6 +86,8 @@ export const openAIResponseSchema = z.object({
         // defensively — the role is semantically redundant in a response message.
         role: z.literal('assistant').nullish(),
         content: z.string().nullish(),
+        // DeepSeek-R1 / Kimi-K2.5 reasoning chain, returned alongside the answer
+        reasoning_content: z.string().nullish(),
         tool_calls: z.array(toolCallSchema).nullish(),
       }),
       finish_reason: z.string().nullish(),
@@ -62,13 +97,7 @@ export const openAIResponseSchema = z.object({
       content_filter_results: z.unknown().nullish(),
     }),
   ),
-  usage: z
-    .object({
-      prompt_tokens: z.number().nullish(),
-      completion_tokens: z.number().nullish(),
-      total_tokens: z.number().nullish(),
-    })
-    .nullish(),
+  usage: openAIUsageSchema.nullish(),
 });
 
 export const openAIChunkSchema = z.object({
@@ -106,16 +135,14 @@ export const openAIChunkSchema = z.object({
       logprobs: z.unknown().nullish(),
       content_filter_results: z.unknown().nullish(),
     }),
-  ),
-  usage: z
-    .object({
-      prompt_tokens: z.number().nullish(),
-      completion_tokens: z.number().nullish(),
-      total_tokens: z.number().nullish(),
-    })
+  )
+    // The trailing usage chunk from include_usage has `choices: []`; some
+    // gateways drop the field entirely.
     .nullish(),
+  usage: openAIUsageSchema.nullish(),
 });
 
+type OpenAIUsage = z.infer<typeof openAIUsageSchema>;
 type OpenAIResponse = z.infer<typeof openAIResponseSchema>;
 type OpenAIChunk = z.infer<typeof openAIChunkSchema>;
 
@@ -123,6 +150,57 @@ type OpenAIChunk = z.infer<typeof openAIChunkSchema>;
 // Shared helpers
 // ---------------------------------------------------------------------------
 
+// DeepSeek-R1 deployments that don't split out `reasoning_content` inline the
+// chain of thought at the start of `content` wrapped in these tags.
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+/**
+ * Split a leading `<think>...</think>` block off a complete message body.
+ * Content that does not start with the tag is returned unchanged.
+ */
+export function extractThinkTag(content: string): { reasoning: string | undefined; text: string } {
+  const match = /^\s*<think>([\s\S]*?)<\/think>\s*/.exec(content);
+  if (!match) return { reasoning: undefined, text: content };
+  return { reasoning: match[1], text: content.slice(match[0].length) };
+}
+
+/** Length of the longest suffix of `text` that is a proper prefix of `tag`. */
+function partialTagSuffixLength(text: string, tag: string): number {
+  for (let len = Math.min(tag.length - 1, text.length); len > 0; len--) {
+    if (tag.startsWith(text.slice(-len))) return len;
+  }
+  return 0;
+}
+
+function toParsedUsage(usage: OpenAIUsage | null | undefined): ParsedUsage {
+  return {
+    inputTokens: usage?.prompt_tokens ?? undefined,
+    outputTokens: usage?.completion_tokens ?? undefined,
+    cacheReadTokens: usage?.prompt_tokens_details?.cached_tokens ?? undefined,
+    reasoningTokens: usage?.completion_tokens_details?.reasoning_tokens ?? undefined,
+  };
+}
+
+/**
+ * Token counts the V3 usage shape has no slot for (audio, predicted outputs),
+ * plus the raw usage object, under `providerMetadata['azure-foundry']`.
+ */
+function usageMetadata(usage: OpenAIUsage | null | undefined): SharedV3ProviderMetadata | undefined {
+  if (!usage) return undefined;
+  const metadata: JSONObject = { usage: usage as JSONObject };
+  const details = {
+    inputAudioTokens: usage.prompt_tokens_details?.audio_tokens,
+    outputAudioTokens: usage.completion_tokens_details?.audio_tokens,
+    acceptedPredictionTokens: usage.completion_tokens_details?.accepted_prediction_tokens,
+    rejectedPredictionTokens: usage.completion_tokens_details?.rejected_prediction_tokens,
+  };
+  for (const [key, value] of Object.entries(details)) {
+    if (value != null) metadata[key] = value;
+  }
+  return { 'azure-foundry': metadata };
+}
+
 export function mapFinishReason(reason: string | null | undefined): LanguageModelV3FinishReason {
   const raw = reason ?? undefined;
   const unified = ((): LanguageModelV3FinishReason['unified'] => {
@@ -137,7 +215,7 @@ export function mapFinishReason(reason: string | null | undefined): LanguageMode
   return { unified, raw };
 }
 
-function toolResultToString(output: { type: string; value?: unknown }): string {
+export function toolResultToString(output: { type: string; value?: unknown }): string {
   if (output.type === 'text' || output.type === 'error-text') {
     return String(output.value ?? '');
   }
@@ -274,6 +352,22 @@ function buildToolsAndChoice(options: LanguageModelV3CallOptions): {
   return { tools, tool_choice, warnings };
 }
 
+// OpenAI models that accept `response_format: json_schema`. Third-party
+// models default to prompt-injected JSON since support varies by deployment;
+// o1-mini / o1-preview predate structured outputs.
+const STRUCTURED_OUTPUT_PATTERNS = [
+  /^gpt-4o/i,
+  /^gpt-4\.1/i,
+  /^gpt-4\.5/i,
+  /^gpt-5/i,
+  /^o1(?!-mini|-preview)/i,
+  /^o[3-9]/i,
+];
+
+function supportsStructuredOutputs(modelId: string): boolean {
+  return STRUCTURED_OUTPUT_PATTERNS.some((pattern) => pattern.test(modelId));
+}
+
 // ---------------------------------------------------------------------------
 // OpenAI adapter  (max_completion_tokens — o-series, gpt-5+)
 // ---------------------------------------------------------------------------
@@ -282,19 +376,39 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
   readonly responseSchema = openAIResponseSchema;
   readonly chunkSchema = openAIChunkSchema;
 
+  // image_url accepts http(s) URLs as well as data URLs
+  readonly supportedUrls = { 'image/*': [/^https?:\/\//] };
+
   // Streaming state
   private finishReason: LanguageModelV3FinishReason = { unified: 'other', raw: undefined };
-  private inputTokens: number | undefined;
-  private outputTokens: number | undefined;
+  private usage: OpenAIUsage | undefined;
   private readonly toolCallAccumulators = new Map<
     number,
     { id: string; name: string; argumentsText: string }
   >();
   private readonly openTextIds = new Set<string>();
+  private reasoningOpen = false;
+  // `<think>` tag detection: 'detect' until the first non-whitespace content
+  // shows whether the model inlines its reasoning, then 'reasoning' / 'text'.
+  private thinkMode: 'detect' | 'reasoning' | 'text' = 'detect';
+  private contentBuffer = '';
+  private trimLeadingText = false;
   private readonly generateId: () => string;
+  private readonly settings: AdapterSettings;
 
-  constructor(generateId: () => string) {
+  // Request-shape switches overridden by OpenAILegacyAdapter
+  protected readonly maxTokensKey: 'max_completion_tokens' | 'max_tokens' = 'max_completion_tokens';
+  protected readonly suppressZeroSampling: boolean = true;
+
+  constructor(generateId: () => string, settings: AdapterSettings = {}) {
     this.generateId = generateId;
+    this.settings = settings;
+  }
+
+  get streamBodyExtras(): Record<string, unknown> | undefined {
+    return this.settings.includeUsage === false
+      ? undefined
+      : { stream_options: { include_usage: true } };
   }
 
   buildRequest(
@@ -304,37 +418,63 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
   ): { body: Record<string, unknown>; warnings: SharedV3Warning[] } {
     const { tools, tool_choice, warnings } = buildToolsAndChoice(options);
     const messages = convertToOpenAIMessages(options.prompt);
+    const providerOptions = parseProviderOptions(
+      options.providerOptions,
+      openAIProviderOptionsSchema,
+      warnings,
+    );
 
+    let responseFormat: unknown;
     if (options.responseFormat?.type === 'json') {
-      messages.push({
-        role: 'user',
-        content: [{ type: 'text', text: 'Respond with a valid JSON object only. Do not include any markdown formatting or additional text.' }],
-      });
+      const structuredOutputs =
+        this.settings.structuredOutputs ??
+        supportsStructuredOutputs(this.settings.familyModelId ?? modelId);
+      if (structuredOutputs) {
+        responseFormat = options.responseFormat.schema != null
+          ? {
+              type: 'json_schema',
+              json_schema: {
+                name: options.responseFormat.name ?? 'response',
+                description: options.responseFormat.description,
+                schema: options.responseFormat.schema,
+                strict: providerOptions.strictJsonSchema ?? true,
+              },
+            }
+          : { type: 'json_object' };
+      } else {
+        messages.push({
+          role: 'user',
+          content: [{ type: 'text', text: 'Respond with a valid JSON object only. Do not include any markdown formatting or additional text.' }],
+        });
+      }
     }
 
     // Suppress temperature/top_p of 0 — some newer models reject explicit 0
     const explicitTemperature =
-      (options.temperature !== 0 ? options.temperature : undefined);
+      (this.suppressZeroSampling && options.temperature === 0 ? undefined : options.temperature);
     const explicitTopP =
-      (options.topP !== 0 ? options.topP : undefined);
+      (this.suppressZeroSampling && options.topP === 0 ? undefined : options.topP);
 
     const body: Record<string, unknown> = {
       ...(modelInBody ? { model: modelId } : {}),
       messages,
-      max_completion_tokens: options.maxOutputTokens,
+      [this.maxTokensKey]: options.maxOutputTokens,
       temperature: explicitTemperature,
       top_p: explicitTopP,
       stop: options.stopSequences,
       seed: options.seed,
+      response_format: responseFormat,
+      reasoning_effort: providerOptions.reasoningEffort,
+      parallel_tool_calls: providerOptions.parallelToolCalls,
+      user: providerOptions.user,
+      logit_bias: providerOptions.logitBias,
+      service_tier: providerOptions.serviceTier,
+      metadata: providerOptions.metadata,
       ...(tools != null ? { tools } : {}),
       ...(tool_choice != null ? { tool_choice } : {}),
     };
 
-    for (const key of Object.keys(body)) {
-      if (body[key] === undefined) delete body[key];
-    }
-
-    return { body, warnings };
+    return { body: applyExtraBody(body, providerOptions.extraBody), warnings };
   }
 
   parseResponse(raw: OpenAIResponse): ParsedResponse {
@@ -342,7 +482,11 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
     const message = choice?.message;
     const content = [];
 
-    if (message?.content) content.push({ type: 'text', text: message.content });
+    const { reasoning: inlineReasoning, text } = extractThinkTag(message?.content ?? '');
+    const reasoning = message?.reasoning_content ?? inlineReasoning;
+
+    if (reasoning) content.push({ type: 'reasoning', text: reasoning });
+    if (text) content.push({ type: 'text', text });
 
     if (message?.tool_calls && message.tool_calls.length > 0) {
       for (const tc of message.tool_calls) {
@@ -359,10 +503,8 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       content: content as any,
       finishReason: mapFinishReason(choice?.finish_reason),
-      usage: {
-        inputTokens: raw.usage?.prompt_tokens ?? undefined,
-        outputTokens: raw.usage?.completion_tokens ?? undefined,
-      },
+      usage: toParsedUsage(raw.usage),
+      providerMetadata: usageMetadata(raw.usage),
     };
   }
 
@@ -373,23 +515,22 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
     const value = chunk.value;
 
     if (value.usage) {
-      this.inputTokens = value.usage.prompt_tokens ?? undefined;
-      this.outputTokens = value.usage.completion_tokens ?? undefined;
+      this.usage = value.usage;
     }
 
-    for (const choice of value.choices) {
+    for (const choice of value.choices ?? []) {
       const delta = choice.delta;
 
+      if (delta.reasoning_content) {
+        this.pushReasoning(parts, delta.reasoning_content);
+      }
+
       if (delta.content) {
-        const textId = 'text-0';
-        if (!this.openTextIds.has(textId)) {
-          this.openTextIds.add(textId);
-          parts.push({ type: 'text-start', id: textId });
-        }
-        parts.push({ type: 'text-delta', id: textId, delta: delta.content });
+        this.pushContent(parts, delta.content);
       }
 
       if (delta.tool_calls) {
+        this.closeReasoning(parts);
         for (const tc of delta.tool_calls) {
           const idx = tc.index;
           if (!this.toolCallAccumulators.has(idx)) {
@@ -425,6 +566,15 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
   flush(): ParsedStreamChunk[] {
     const parts: ParsedStreamChunk[] = [];
 
+    // Release anything held back while waiting for a (partial) think tag
+    if (this.contentBuffer) {
+      const pending = this.contentBuffer;
+      this.contentBuffer = '';
+      if (this.thinkMode === 'reasoning') this.pushReasoning(parts, pending);
+      else this.pushText(parts, this.trimLeadingText ? pending.trimStart() : pending);
+    }
+    this.closeReasoning(parts);
+
     for (const textId of this.openTextIds) {
       parts.push({ type: 'text-end', id: textId });
     }
@@ -437,9 +587,92 @@ export class OpenAIAdapter implements ChatAdapter<OpenAIResponse, OpenAIChunk> {
     parts.push({
       type: 'finish',
       finishReason: this.finishReason,
-      usage: { inputTokens: this.inputTokens, outputTokens: this.outputTokens },
+      usage: toParsedUsage(this.usage),
+      providerMetadata: usageMetadata(this.usage),
     });
 
     return parts;
   }
+
+  // -------------------------------------------------------------------------
+  // Streaming helpers
+  // -------------------------------------------------------------------------
+
+  private pushReasoning(parts: ParsedStreamChunk[], delta: string): void {
+    if (!delta) return;
+    const id = 'reasoning-0';
+    if (!this.reasoningOpen) {
+      this.reasoningOpen = true;
+      parts.push({ type: 'reasoning-start', id });
+    }
+    parts.push({ type: 'reasoning-delta', id, delta });
+  }
+
+  private closeReasoning(parts: ParsedStreamChunk[]): void {
+    if (!this.reasoningOpen) return;
+    this.reasoningOpen = false;
+    parts.push({ type: 'reasoning-end', id: 'reasoning-0' });
+  }
+
+  private pushText(parts: ParsedStreamChunk[], delta: string): void {
+    if (!delta) return;
+    this.closeReasoning(parts);
+    const textId = 'text-0';
+    if (!this.openTextIds.has(textId)) {
+      this.openTextIds.add(textId);
+      parts.push({ type: 'text-start', id: textId });
+    }
+    parts.push({ type: 'text-delta', id: textId, delta });
+  }
+
+  /**
+   * Route a content delta to text or reasoning, splitting out an inline
+   * `<think>...</think>` block. Tags may arrive split across chunks, so
+   * anything that could be the start of a tag is buffered until resolved.
+   */
+  private pushContent(parts: ParsedStreamChunk[], delta: string): void {
+    this.contentBuffer += delta;
+
+    while (this.contentBuffer) {
+      if (this.thinkMode === 'detect') {
+        const trimmed = this.contentBuffer.trimStart();
+        if (!trimmed || (trimmed.length < THINK_OPEN.length && THINK_OPEN.startsWith(trimmed))) {
+          return; // not enough content yet to decide
+        }
+        if (trimmed.startsWith(THINK_OPEN)) {
+          this.thinkMode = 'reasoning';
+          this.contentBuffer = trimmed.slice(THINK_OPEN.length);
+        } else {
+          this.thinkMode = 'text';
+        }
+        continue;
+      }
+
+      if (this.thinkMode === 'reasoning') {
+        const closeIdx = this.contentBuffer.indexOf(THINK_CLOSE);
+        if (closeIdx >= 0) {
+          this.pushReasoning(parts, this.contentBuffer.slice(0, closeIdx));
+          this.closeReasoning(parts);
+          this.contentBuffer = this.contentBuffer.slice(closeIdx + THINK_CLOSE.length);
+          this.thinkMode = 'text';
+          this.trimLeadingText = true;
+          continue;
+        }
+        const keep = partialTagSuffixLength(this.contentBuffer, THINK_CLOSE);
+        this.pushReasoning(parts, this.contentBuffer.slice(0, this.contentBuffer.length - keep));
+        this.contentBuffer = this.contentBuffer.slice(this.contentBuffer.length - keep);
+        return;
+      }
+
+      // 'text' — drop the whitespace that separates `</think>` from the answer
+      let text = this.contentBuffer;
+      this.contentBuffer = '';
+      if (this.trimLeadingText) {
+        text = text.trimStart();
+        if (!text) return;
+        this.trimLeadingText = false;
+      }
+      this.pushText(parts, text);
+    }
+  }
 }
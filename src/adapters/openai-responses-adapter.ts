@@ -0,0 +1,638 @@
+import {
+  JSONObject,
+  LanguageModelV3CallOptions,
+  LanguageModelV3Content,
+  LanguageModelV3FinishReason,
+  SharedV3ProviderOptions,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import { ParseResult } from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { toolResultToString } from './openai-adapter.js';
+import {
+  applyExtraBody,
+  openAIResponsesProviderOptionsSchema,
+  parseProviderOptions,
+} from './provider-options.js';
+import { AdapterSettings, ChatAdapter, ParsedResponse, ParsedStreamChunk, ParsedUsage } from './types.js';
+
+// ---------------------------------------------------------------------------
+// Wire types — OpenAI Responses API (/openai/v1/responses)
+// ---------------------------------------------------------------------------
+
+type InputContent =
+  | { type: 'input_text'; text: string }
+  | { type: 'input_image'; image_url: string }
+  | { type: 'input_file'; filename: string; file_data: string };
+
+type InputItem =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: InputContent[] }
+  | { role: 'assistant'; content: { type: 'output_text'; text: string }[] }
+  | { type: 'function_call'; call_id: string; name: string; arguments: string }
+  | { type: 'function_call_output'; call_id: string; output: string }
+  | {
+      type: 'reasoning';
+      id: string;
+      encrypted_content?: string;
+      summary: { type: 'summary_text'; text: string }[];
+    };
+
+// Reasoning items are round-tripped through the AI SDK's providerMetadata /
+// providerOptions under this key so multi-turn calls with `store: false` can
+// send the encrypted reasoning state back to the model.
+const PROVIDER_KEY = 'azure-foundry';
+
+// Deployments that produce reasoning items, and so accept
+// `include: ['reasoning.encrypted_content']`.
+const REASONING_MODEL_PATTERNS = [/^o\d/i, /^gpt-5/i, /codex/i];
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const usageSchema = z
+  .object({
+    input_tokens: z.number().nullish(),
+    output_tokens: z.number().nullish(),
+    total_tokens: z.number().nullish(),
+    input_tokens_details: z
+      .object({ cached_tokens: z.number().nullish() })
+      .passthrough()
+      .nullish(),
+    output_tokens_details: z
+      .object({ reasoning_tokens: z.number().nullish() })
+      .passthrough()
+      .nullish(),
+  })
+  .passthrough();
+
+type ResponsesUsage = z.infer<typeof usageSchema>;
+
+const messageItemSchema = z.object({
+  type: z.literal('message'),
+  id: z.string(),
+  role: z.string().nullish(),
+  content: z.array(
+    z.object({
+      type: z.string(),
+      text: z.string().nullish(),
+      refusal: z.string().nullish(),
+    }),
+  ),
+});
+
+const functionCallItemSchema = z.object({
+  type: z.literal('function_call'),
+  id: z.string().nullish(),
+  call_id: z.string(),
+  name: z.string(),
+  arguments: z.string(),
+});
+
+const reasoningItemSchema = z.object({
+  type: z.literal('reasoning'),
+  id: z.string(),
+  encrypted_content: z.string().nullish(),
+  summary: z
+    .array(z.object({ type: z.string(), text: z.string() }))
+    .nullish(),
+});
+
+// Unknown item types (web_search_call, image_generation_call, …) are
+// accepted and ignored rather than failing validation.
+const unknownItemSchema = z.object({ type: z.string() }).passthrough();
+
+const outputItemSchema = z.union([
+  messageItemSchema,
+  functionCallItemSchema,
+  reasoningItemSchema,
+  unknownItemSchema,
+]);
+
+const responseBodySchema = z.object({
+  id: z.string().nullish(),
+  model: z.string().nullish(),
+  created_at: z.number().nullish(),
+  status: z.string().nullish(),
+  incomplete_details: z.object({ reason: z.string().nullish() }).nullish(),
+  error: z.object({ code: z.string().nullish(), message: z.string() }).nullish(),
+  output: z.array(outputItemSchema),
+  usage: usageSchema.nullish(),
+});
+
+export const openAIResponsesResponseSchema = responseBodySchema;
+
+export const openAIResponsesChunkSchema = z.union([
+  z.object({
+    type: z.literal('response.output_item.added'),
+    output_index: z.number(),
+    item: outputItemSchema,
+  }),
+  z.object({
+    type: z.literal('response.output_item.done'),
+    output_index: z.number(),
+    item: outputItemSchema,
+  }),
+  z.object({
+    type: z.literal('response.output_text.delta'),
+    item_id: z.string(),
+    delta: z.string(),
+  }),
+  z.object({
+    type: z.literal('response.function_call_arguments.delta'),
+    item_id: z.string(),
+    output_index: z.number(),
+    delta: z.string(),
+  }),
+  z.object({
+    type: z.literal('response.reasoning_summary_text.delta'),
+    item_id: z.string(),
+    delta: z.string(),
+  }),
+  z.object({
+    type: z.enum(['response.completed', 'response.incomplete', 'response.failed']),
+    response: responseBodySchema.partial({ output: true }),
+  }),
+  z.object({
+    type: z.literal('error'),
+    code: z.string().nullish(),
+    message: z.string(),
+  }),
+  // response.created, response.in_progress, *.done events, etc.
+  z.object({ type: z.string() }).passthrough(),
+]);
+
+type ResponsesResponse = z.infer<typeof openAIResponsesResponseSchema>;
+type ResponsesChunk = z.infer<typeof openAIResponsesChunkSchema>;
+type ResponsesOutputItem = z.infer<typeof outputItemSchema>;
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+function toParsedUsage(usage: ResponsesUsage | null | undefined): ParsedUsage {
+  return {
+    inputTokens: usage?.input_tokens ?? undefined,
+    outputTokens: usage?.output_tokens ?? undefined,
+    cacheReadTokens: usage?.input_tokens_details?.cached_tokens ?? undefined,
+    reasoningTokens: usage?.output_tokens_details?.reasoning_tokens ?? undefined,
+  };
+}
+
+function mapFinishReason(
+  status: string | null | undefined,
+  incompleteReason: string | null | undefined,
+  hasToolCalls: boolean,
+): LanguageModelV3FinishReason {
+  const raw = incompleteReason ?? status ?? undefined;
+  const unified = ((): LanguageModelV3FinishReason['unified'] => {
+    switch (incompleteReason) {
+      case 'max_output_tokens': return 'length';
+      case 'content_filter': return 'content-filter';
+    }
+    switch (status) {
+      case 'completed': return hasToolCalls ? 'tool-calls' : 'stop';
+      case 'failed': return 'error';
+      default: return 'other';
+    }
+  })();
+  return { unified, raw };
+}
+
+function reasoningMetadata(itemId: string, encryptedContent: string | null | undefined) {
+  return {
+    [PROVIDER_KEY]: {
+      itemId,
+      ...(encryptedContent ? { reasoningEncryptedContent: encryptedContent } : {}),
+    },
+  };
+}
+
+function readReasoningOptions(
+  providerOptions: SharedV3ProviderOptions | undefined,
+): { itemId?: string; reasoningEncryptedContent?: string } {
+  const opts = providerOptions?.[PROVIDER_KEY] as Record<string, unknown> | undefined;
+  return {
+    itemId: typeof opts?.itemId === 'string' ? opts.itemId : undefined,
+    reasoningEncryptedContent:
+      typeof opts?.reasoningEncryptedContent === 'string' ? opts.reasoningEncryptedContent : undefined,
+  };
+}
+
+export function convertToResponsesInput(
+  prompt: LanguageModelV3CallOptions['prompt'],
+): { input: InputItem[]; warnings: SharedV3Warning[] } {
+  const input: InputItem[] = [];
+  const warnings: SharedV3Warning[] = [];
+
+  for (const message of prompt) {
+    switch (message.role) {
+      case 'system': {
+        input.push({ role: 'system', content: message.content });
+        break;
+      }
+
+      case 'user': {
+        const content: InputContent[] = [];
+        for (const part of message.content) {
+          if (part.type === 'text') {
+            content.push({ type: 'input_text', text: part.text });
+          } else if (part.type === 'file') {
+            const { data, mediaType } = part;
+            const url =
+              data instanceof URL
+                ? data.href
+                : `data:${mediaType};base64,${typeof data === 'string' ? data : Buffer.from(data).toString('base64')}`;
+            if (mediaType.startsWith('image/')) {
+              content.push({ type: 'input_image', image_url: url });
+            } else if (mediaType === 'application/pdf' && !(data instanceof URL)) {
+              content.push({ type: 'input_file', filename: part.filename ?? 'document.pdf', file_data: url });
+            } else {
+              warnings.push({ type: 'unsupported', feature: `file part with media type ${mediaType}` });
+            }
+          }
+        }
+        input.push({ role: 'user', content });
+        break;
+      }
+
+      case 'assistant': {
+        for (const part of message.content) {
+          switch (part.type) {
+            case 'text':
+              input.push({ role: 'assistant', content: [{ type: 'output_text', text: part.text }] });
+              break;
+            case 'tool-call':
+              input.push({
+                type: 'function_call',
+                call_id: part.toolCallId,
+                name: part.toolName,
+                arguments: typeof part.input === 'string' ? part.input : JSON.stringify(part.input),
+              });
+              break;
+            case 'reasoning': {
+              const { itemId, reasoningEncryptedContent } = readReasoningOptions(part.providerOptions);
+              // Without the item id the API cannot match the reasoning state — skip it.
+              if (!itemId) break;
+              input.push({
+                type: 'reasoning',
+                id: itemId,
+                ...(reasoningEncryptedContent ? { encrypted_content: reasoningEncryptedContent } : {}),
+                summary: part.text ? [{ type: 'summary_text', text: part.text }] : [],
+              });
+              break;
+            }
+          }
+        }
+        break;
+      }
+
+      case 'tool': {
+        for (const part of message.content) {
+          if (part.type !== 'tool-result') continue;
+          input.push({
+            type: 'function_call_output',
+            call_id: part.toolCallId,
+            output: toolResultToString(part.output),
+          });
+        }
+        break;
+      }
+    }
+  }
+
+  return { input, warnings };
+}
+
+function buildToolsAndChoice(options: LanguageModelV3CallOptions): {
+  tools: unknown;
+  tool_choice: unknown;
+  warnings: SharedV3Warning[];
+} {
+  const warnings: SharedV3Warning[] = [];
+  let tools: unknown;
+  let tool_choice: unknown;
+
+  if (options.topK != null) warnings.push({ type: 'unsupported', feature: 'topK' });
+  if (options.presencePenalty != null) warnings.push({ type: 'unsupported', feature: 'presencePenalty' });
+  if (options.frequencyPenalty != null) warnings.push({ type: 'unsupported', feature: 'frequencyPenalty' });
+  if (options.stopSequences != null) warnings.push({ type: 'unsupported', feature: 'stopSequences' });
+  if (options.seed != null) warnings.push({ type: 'unsupported', feature: 'seed' });
+
+  if (options.tools && options.tools.length > 0) {
+    // Responses tools are flat — no nested `function` object
+    tools = options.tools
+      .filter((t) => t.type === 'function')
+      .map((t) => ({
+        type: 'function',
+        name: t.name,
+        description: t.description,
+        parameters: (t as { inputSchema?: unknown }).inputSchema,
+      }));
+  }
+
+  if (options.toolChoice) {
+    const tc = options.toolChoice;
+    if (tc.type === 'auto') tool_choice = 'auto';
+    else if (tc.type === 'none') tool_choice = 'none';
+    else if (tc.type === 'required') tool_choice = 'required';
+    else if (tc.type === 'tool') tool_choice = { type: 'function', name: tc.toolName };
+  }
+
+  return { tools, tool_choice, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// OpenAI Responses adapter  (/openai/v1/responses — codex, o-series pro)
+// ---------------------------------------------------------------------------
+
+export class OpenAIResponsesAdapter implements ChatAdapter<ResponsesResponse, ResponsesChunk> {
+  readonly responseSchema = openAIResponsesResponseSchema;
+  readonly chunkSchema = openAIResponsesChunkSchema;
+
+  // The v1 Responses route is not deployment-scoped — the deployment name is
+  // always sent in the body and no api-version query param is needed.
+  readonly urlSuffix = '/openai/v1/responses';
+
+  // input_file only takes inline data; images can be passed by URL.
+  readonly supportedUrls = { 'image/*': [/^https?:\/\//] };
+
+  // Streaming state
+  private finishReason: LanguageModelV3FinishReason = { unified: 'other', raw: undefined };
+  private usage: ResponsesUsage | undefined;
+  private hasToolCalls = false;
+  private readonly toolCallAccumulators = new Map<
+    number,
+    { id: string; name: string; argumentsText: string }
+  >();
+  private readonly openTextIds = new Set<string>();
+  private readonly openReasoningIds = new Set<string>();
+  private readonly generateId: () => string;
+  private readonly settings: AdapterSettings;
+
+  constructor(generateId: () => string, settings: AdapterSettings = {}) {
+    this.generateId = generateId;
+    this.settings = settings;
+  }
+
+  buildRequest(
+    options: LanguageModelV3CallOptions,
+    modelId: string,
+    _modelInBody: boolean,
+  ): { body: Record<string, unknown>; warnings: SharedV3Warning[] } {
+    const { tools, tool_choice, warnings } = buildToolsAndChoice(options);
+    const { input, warnings: inputWarnings } = convertToResponsesInput(options.prompt);
+    warnings.push(...inputWarnings);
+    const providerOptions = parseProviderOptions(
+      options.providerOptions,
+      openAIResponsesProviderOptionsSchema,
+      warnings,
+    );
+
+    let reasoning: Record<string, unknown> | undefined;
+    if (providerOptions.reasoningEffort != null || providerOptions.reasoningSummary != null) {
+      reasoning = { effort: providerOptions.reasoningEffort, summary: providerOptions.reasoningSummary };
+    }
+
+    // Non-reasoning deployments reject the encrypted reasoning include.
+    const familyModelId = this.settings.familyModelId ?? modelId;
+    const include =
+      providerOptions.include ??
+      (reasoning != null || REASONING_MODEL_PATTERNS.some((p) => p.test(familyModelId))
+        ? ['reasoning.encrypted_content']
+        : undefined);
+
+    let text: unknown;
+    if (options.responseFormat?.type === 'json') {
+      text = {
+        format: options.responseFormat.schema != null
+          ? {
+              type: 'json_schema',
+              name: options.responseFormat.name ?? 'response',
+              description: options.responseFormat.description,
+              schema: options.responseFormat.schema,
+              strict: providerOptions.strictJsonSchema ?? true,
+            }
+          : { type: 'json_object' },
+      };
+    }
+
+    // Suppress temperature/top_p of 0 — reasoning models reject explicit values
+    const explicitTemperature =
+      (options.temperature !== 0 ? options.temperature : undefined);
+    const explicitTopP =
+      (options.topP !== 0 ? options.topP : undefined);
+
+    const body: Record<string, unknown> = {
+      model: modelId,
+      input,
+      max_output_tokens: options.maxOutputTokens,
+      temperature: explicitTemperature,
+      top_p: explicitTopP,
+      // Stateless: reasoning state travels with the conversation as encrypted
+      // content instead of being stored server-side.
+      store: false,
+      include,
+      reasoning,
+      parallel_tool_calls: providerOptions.parallelToolCalls,
+      user: providerOptions.user,
+      service_tier: providerOptions.serviceTier,
+      metadata: providerOptions.metadata,
+      ...(text != null ? { text } : {}),
+      ...(tools != null ? { tools } : {}),
+      ...(tool_choice != null ? { tool_choice } : {}),
+    };
+
+    return { body: applyExtraBody(body, providerOptions.extraBody), warnings };
+  }
+
+  parseResponse(raw: ResponsesResponse): ParsedResponse {
+    const content: LanguageModelV3Content[] = [];
+    let hasToolCalls = false;
+
+    for (const item of raw.output) {
+      switch (item.type) {
+        case 'message': {
+          const message = item as z.infer<typeof messageItemSchema>;
+          for (const part of message.content) {
+            if (part.type === 'output_text' && part.text) {
+              content.push({ type: 'text', text: part.text });
+            }
+          }
+          break;
+        }
+        case 'function_call': {
+          const call = item as z.infer<typeof functionCallItemSchema>;
+          hasToolCalls = true;
+          content.push({
+            type: 'tool-call',
+            toolCallId: call.call_id,
+            toolName: call.name,
+            input: call.arguments,
+          });
+          break;
+        }
+        case 'reasoning': {
+          const reasoning = item as z.infer<typeof reasoningItemSchema>;
+          content.push({
+            type: 'reasoning',
+            text: (reasoning.summary ?? []).map((s) => s.text).join('\n\n'),
+            providerMetadata: reasoningMetadata(reasoning.id, reasoning.encrypted_content),
+          });
+          break;
+        }
+      }
+    }
+
+    return {
+      content,
+      finishReason: mapFinishReason(raw.status, raw.incomplete_details?.reason, hasToolCalls),
+      usage: toParsedUsage(raw.usage),
+      ...(raw.usage ? { providerMetadata: { 'azure-foundry': { usage: raw.usage as JSONObject } } } : {}),
+    };
+  }
+
+  parseChunk(chunk: ParseResult<ResponsesChunk>): ParsedStreamChunk[] {
+    if (!chunk.success) return [{ type: 'error', error: chunk.error }];
+
+    const parts: ParsedStreamChunk[] = [];
+    const value = chunk.value;
+
+    switch (value.type) {
+      case 'response.output_item.added': {
+        const { item, output_index } = value as { item: ResponsesOutputItem; output_index: number };
+        if (item.type === 'message') {
+          const id = (item as z.infer<typeof messageItemSchema>).id;
+          this.openTextIds.add(id);
+          parts.push({ type: 'text-start', id });
+        } else if (item.type === 'function_call') {
+          const call = item as z.infer<typeof functionCallItemSchema>;
+          const toolCallId = call.call_id || this.generateId();
+          this.hasToolCalls = true;
+          this.toolCallAccumulators.set(output_index, {
+            id: toolCallId,
+            name: call.name,
+            argumentsText: call.arguments ?? '',
+          });
+          parts.push({ type: 'tool-input-start', id: toolCallId, toolName: call.name });
+        } else if (item.type === 'reasoning') {
+          const reasoning = item as z.infer<typeof reasoningItemSchema>;
+          this.openReasoningIds.add(reasoning.id);
+          parts.push({
+            type: 'reasoning-start',
+            id: reasoning.id,
+            providerMetadata: reasoningMetadata(reasoning.id, reasoning.encrypted_content),
+          });
+        }
+        break;
+      }
+
+      case 'response.output_text.delta': {
+        const { item_id, delta } = value as { item_id: string; delta: string };
+        parts.push({ type: 'text-delta', id: item_id, delta });
+        break;
+      }
+
+      case 'response.function_call_arguments.delta': {
+        const { output_index, delta } = value as { output_index: number; delta: string };
+        const acc = this.toolCallAccumulators.get(output_index);
+        if (acc && delta) {
+          acc.argumentsText += delta;
+          parts.push({ type: 'tool-input-delta', id: acc.id, delta });
+        }
+        break;
+      }
+
+      case 'response.reasoning_summary_text.delta': {
+        const { item_id, delta } = value as { item_id: string; delta: string };
+        parts.push({ type: 'reasoning-delta', id: item_id, delta });
+        break;
+      }
+
+      case 'response.output_item.done': {
+        const { item, output_index } = value as { item: ResponsesOutputItem; output_index: number };
+        if (item.type === 'message') {
+          const id = (item as z.infer<typeof messageItemSchema>).id;
+          if (this.openTextIds.delete(id)) parts.push({ type: 'text-end', id });
+        } else if (item.type === 'function_call') {
+          const call = item as z.infer<typeof functionCallItemSchema>;
+          const acc = this.toolCallAccumulators.get(output_index);
+          if (acc) {
+            this.toolCallAccumulators.delete(output_index);
+            parts.push({ type: 'tool-input-end', id: acc.id });
+            parts.push({
+              type: 'tool-call',
+              toolCallId: acc.id,
+              toolName: acc.name,
+              // The done event carries the authoritative full argument string
+              input: call.arguments || acc.argumentsText,
+            });
+          }
+        } else if (item.type === 'reasoning') {
+          const reasoning = item as z.infer<typeof reasoningItemSchema>;
+          if (this.openReasoningIds.delete(reasoning.id)) {
+            parts.push({
+              type: 'reasoning-end',
+              id: reasoning.id,
+              providerMetadata: reasoningMetadata(reasoning.id, reasoning.encrypted_content),
+            });
+          }
+        }
+        break;
+      }
+
+      case 'response.completed':
+      case 'response.incomplete':
+      case 'response.failed': {
+        const { response } = value as { response: Partial<ResponsesResponse> };
+        this.finishReason = mapFinishReason(
+          response.status,
+          response.incomplete_details?.reason,
+          this.hasToolCalls,
+        );
+        if (response.usage) {
+          this.usage = response.usage;
+        }
+        if (response.error) {
+          parts.push({ type: 'error', error: response.error });
+        }
+        break;
+      }
+
+      case 'error': {
+        parts.push({ type: 'error', error: value });
+        break;
+      }
+    }
+
+    return parts;
+  }
+
+  flush(): ParsedStreamChunk[] {
+    const parts: ParsedStreamChunk[] = [];
+
+    // Close anything the server left open (e.g. the stream was cut short)
+    for (const id of this.openReasoningIds) {
+      parts.push({ type: 'reasoning-end', id });
+    }
+
+    for (const textId of this.openTextIds) {
+      parts.push({ type: 'text-end', id: textId });
+    }
+
+    for (const acc of this.toolCallAccumulators.values()) {
+      parts.push({ type: 'tool-input-end', id: acc.id });
+      parts.push({ type: 'tool-call', toolCallId: acc.id, toolName: acc.name, input: acc.argumentsText });
+    }
+
+    parts.push({
+      type: 'finish',
+      finishReason: this.finishReason,
+      usage: toParsedUsage(this.usage),
+      ...(this.usage ? { providerMetadata: { 'azure-foundry': { usage: this.usage as JSONObject } } } : {}),
+    });
+
+    return parts;
+  }
+}
@@ -0,0 +1,142 @@
+import {
+  InvalidArgumentError,
+  SharedV3ProviderOptions,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import { z } from 'zod';
+
+// ---------------------------------------------------------------------------
+// Per-call provider options
+//
+// Callers pass vendor parameters through the AI SDK's `providerOptions` under
+// this key:
+//
+//   generateText({ model, providerOptions: { 'azure-foundry': { reasoningEffort: 'low' } } })
+//
+// Each adapter declares the keys it understands; anything else is reported as
+// an unsupported-setting warning rather than silently dropped. `extraBody` is
+// the escape hatch for parameters this package does not know about yet — it is
+// merged into the request body last and wins over every computed field.
+// ---------------------------------------------------------------------------
+
+export const PROVIDER_KEY = 'azure-foundry';
+
+const extraBodySchema = z.record(z.unknown()).optional();
+
+const reasoningEffortSchema = z.enum(['minimal', 'low', 'medium', 'high']);
+
+/**
+ * Send `strict: true` with `json_schema` output. Defaults to true; set false
+ * for schemas Azure's strict mode rejects (optional properties, no
+ * `additionalProperties: false`).
+ */
+const strictJsonSchemaSchema = z.boolean().optional();
+
+export const openAIProviderOptionsSchema = z.object({
+  /** Reasoning effort for o-series / gpt-5 deployments (`reasoning_effort`). */
+  reasoningEffort: reasoningEffortSchema.optional(),
+  /** Allow or forbid multiple tool calls in one turn (`parallel_tool_calls`). */
+  parallelToolCalls: z.boolean().optional(),
+  /** End-user identifier for abuse monitoring (`user`). */
+  user: z.string().optional(),
+  /** Token ID → bias in [-100, 100] (`logit_bias`). */
+  logitBias: z.record(z.number()).optional(),
+  /** Processing tier (`service_tier`). */
+  serviceTier: z.string().optional(),
+  /** Key/value tags stored with the completion (`metadata`). */
+  metadata: z.record(z.string()).optional(),
+  strictJsonSchema: strictJsonSchemaSchema,
+  extraBody: extraBodySchema,
+});
+
+export const openAIResponsesProviderOptionsSchema = z.object({
+  /** Reasoning effort (`reasoning.effort`). */
+  reasoningEffort: reasoningEffortSchema.optional(),
+  /** Reasoning summary verbosity (`reasoning.summary`). */
+  reasoningSummary: z.enum(['auto', 'concise', 'detailed']).optional(),
+  /**
+   * Extra output to return (`include`). Defaults to
+   * `['reasoning.encrypted_content']` for reasoning models.
+   */
+  include: z.array(z.string()).optional(),
+  parallelToolCalls: z.boolean().optional(),
+  user: z.string().optional(),
+  serviceTier: z.string().optional(),
+  metadata: z.record(z.string()).optional(),
+  strictJsonSchema: strictJsonSchemaSchema,
+  extraBody: extraBodySchema,
+});
+
+export const anthropicProviderOptionsSchema = z.object({
+  /**
+   * Extended thinking. `budgetTokens` is the maximum number of tokens Claude
+   * may spend reasoning before answering (minimum 1024).
+   */
+  thinking: z
+    .object({
+      type: z.enum(['enabled', 'disabled']),
+      budgetTokens: z.number().int().min(1024).optional(),
+    })
+    .optional(),
+  /**
+   * When true, Claude makes at most one tool call per turn
+   * (`tool_choice.disable_parallel_tool_use`).
+   */
+  disableParallelToolUse: z.boolean().optional(),
+  /** Only sample from the top K options for each token (`top_k`). */
+  topK: z.number().int().positive().optional(),
+  extraBody: extraBodySchema,
+});
+
+export type OpenAIProviderOptions = z.infer<typeof openAIProviderOptionsSchema>;
+export type OpenAIResponsesProviderOptions = z.infer<typeof openAIResponsesProviderOptionsSchema>;
+export type AnthropicProviderOptions = z.infer<typeof anthropicProviderOptionsSchema>;
+
+/**
+ * Validates `providerOptions['azure-foundry']` against an adapter's schema.
+ * Throws InvalidArgumentError on a type mismatch and pushes a warning for
+ * every key the adapter does not recognise.
+ */
+export function parseProviderOptions<T extends z.AnyZodObject>(
+  providerOptions: SharedV3ProviderOptions | undefined,
+  schema: T,
+  warnings: SharedV3Warning[],
+): z.infer<T> {
+  const raw = providerOptions?.[PROVIDER_KEY];
+  if (raw == null) return {} as z.infer<T>;
+
+  const result = schema.safeParse(raw);
+  if (!result.success) {
+    throw new InvalidArgumentError({
+      argument: `providerOptions.${PROVIDER_KEY}`,
+      message: `@nquandt/azure-ai-sdk: invalid provider options — ${result.error.message}`,
+      cause: result.error,
+    });
+  }
+
+  for (const key of Object.keys(raw)) {
+    if (!(key in schema.shape)) {
+      warnings.push({
+        type: 'unsupported',
+        feature: `providerOptions.${PROVIDER_KEY}.${key}`,
+        details: 'This option is not supported by the adapter for this model.',
+      });
+    }
+  }
+
+  return result.data;
+}
+
+/**
+ * Merges `extraBody` over the computed request body and strips undefined keys.
+ */
+export function applyExtraBody(
+  body: Record<string, unknown>,
+  extraBody: Record<string, unknown> | undefined,
+): Record<string, unknown> {
+  const merged = { ...body, ...extraBody };
+  for (const key of Object.keys(merged)) {
+    if (merged[key] === undefined) delete merged[key];
+  }
+  return merged;
+}
@@ -2,6 +2,7 @@ import {
   LanguageModelV3CallOptions,
   LanguageModelV3Content,
   LanguageModelV3FinishReason,
+  SharedV3ProviderMetadata,
   SharedV3Warning,
 } from '@ai-sdk/provider';
 import { ParseResult } from '@ai-sdk/provider-utils';
@@ -11,30 +12,71 @@ import { z } from 'zod';
 // Adapter type discriminant
 // ---------------------------------------------------------------------------
 
-export type AdapterType = 'openai' | 'openai-legacy' | 'anthropic';
+export type AdapterType = 'openai' | 'openai-legacy' | 'openai-responses' | 'anthropic';
+
+/**
+ * Per-model settings forwarded from AzureFoundryChatSettings to the adapter.
+ */
+export interface AdapterSettings {
+  /**
+   * Send native `response_format: json_schema` for JSON output instead of
+   * a prompt instruction. When undefined the adapter decides per model ID.
+   */
+  structuredOutputs?: boolean;
+
+  /**
+   * Ask for token usage at the end of a streamed response. Defaults to true.
+   */
+  includeUsage?: boolean;
+
+  /**
+   * Model ID that capability checks match against, when the deployment name
+   * sent in the request does not follow the model family's naming.
+   */
+  familyModelId?: string;
+}
 
 // ---------------------------------------------------------------------------
 // Normalised structures the language model works with internally
 // ---------------------------------------------------------------------------
 
+/**
+ * Token usage as reported by the adapter. `inputTokens` is the total prompt
+ * size *including* any cached tokens; the cache counts break it down.
+ */
+export type ParsedUsage = {
+  inputTokens: number | undefined;
+  outputTokens: number | undefined;
+  cacheReadTokens?: number;
+  cacheWriteTokens?: number;
+  /** Portion of outputTokens spent on hidden reasoning. */
+  reasoningTokens?: number;
+};
+
 export type ParsedResponse = {
   content: LanguageModelV3Content[];
   finishReason: LanguageModelV3FinishReason;
-  usage: {
-    inputTokens: number | undefined;
-    outputTokens: number | undefined;
-  };
+  usage: ParsedUsage;
+  providerMetadata?: SharedV3ProviderMetadata;
 };
 
 export type ParsedStreamChunk =
   | { type: 'text-delta'; id: string; delta: string }
   | { type: 'text-start'; id: string }
   | { type: 'text-end'; id: string }
+  | { type: 'reasoning-start'; id: string; providerMetadata?: SharedV3ProviderMetadata }
+  | { type: 'reasoning-delta'; id: string; delta: string }
+  | { type: 'reasoning-end'; id: string; providerMetadata?: SharedV3ProviderMetadata }
   | { type: 'tool-input-start'; id: string; toolName: string }
   | { type: 'tool-input-delta'; id: string; delta: string }
   | { type: 'tool-input-end'; id: string }
   | { type: 'tool-call'; toolCallId: string; toolName: string; input: string }
-  | { type: 'finish'; finishReason: LanguageModelV3FinishReason; usage: { inputTokens: number | undefined; outputTokens: number | undefined } }
+  | {
+      type: 'finish';
+      finishReason: LanguageModelV3FinishReason;
+      usage: ParsedUsage;
+      providerMetadata?: SharedV3ProviderMetadata;
+    }
   | { type: 'error'; error: unknown };
 
 // ---------------------------------------------------------------------------
@@ -110,4 +152,22 @@ export interface ChatAdapter<TResponseRaw = unknown, TChunkRaw = unknown> {
    *   `{ 'anthropic-version': '2023-06-01' }`
    */
   readonly additionalHeaders?: Record<string, string>;
+
+  /**
+   * Extra body fields sent only on streaming requests, alongside
+   * `stream: true`.
+   *
+   * Example — OpenAI chat completions only reports streamed usage with:
+   *   `{ stream_options: { include_usage: true } }`
+   */
+  readonly streamBodyExtras?: Record<string, unknown>;
+
+  /**
+   * File URLs the API fetches itself, by media type pattern. The AI SDK
+   * downloads every other URL and passes the bytes instead. Defaults to none.
+   *
+   * Example — Claude reads images and PDFs by URL:
+   *   `{ 'image/*': [/^https?:\/\//], 'application/pdf': [/^https?:\/\//] }`
+   */
+  readonly supportedUrls?: Record<string, RegExp[]>;
 }
@@ -3,6 +3,7 @@ import {
   LanguageModelV3CallOptions,
   LanguageModelV3StreamPart,
   LanguageModelV3Usage,
+  SharedV3Warning,
 } from '@ai-sdk/provider';
 import {
   FetchFunction,
@@ -19,20 +20,57 @@ import {
   AzureFoundryChatModelId,
   AzureFoundryChatSettings,
 } from './azure-foundry-chat-options.js';
-import { resolveAdapter, ChatAdapter } from './adapters/index.js';
+import { AzureFoundryCircuitBreaker } from './azure-foundry-circuit-breaker.js';
+import { AzureFoundryRateLimiter, RateLimitLease } from './azure-foundry-rate-limiter.js';
+import {
+  parseResponseMetadata,
+  withClientRequestId,
+  withResponseMetadata,
+} from './azure-foundry-response-metadata.js';
+import { AzureFoundryTelemetry, ChatCallInfo } from './azure-foundry-telemetry.js';
+import { AzureFoundryTimeouts, TimeoutController } from './azure-foundry-timeout.js';
+import {
+  AdapterType,
+  ChatAdapter,
+  detectAdapterType,
+  resolveAdapter,
+  ParsedUsage,
+} from './adapters/index.js';
 import { VERSION } from './version.js';
 
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
 
-function toV3Usage(flat: { inputTokens?: number | undefined; outputTokens?: number | undefined }): LanguageModelV3Usage {
+function toV3Usage(flat: ParsedUsage): LanguageModelV3Usage {
+  const hasCacheInfo = flat.cacheReadTokens != null || flat.cacheWriteTokens != null;
   return {
-    inputTokens: { total: flat.inputTokens, noCache: undefined, cacheRead: undefined, cacheWrite: undefined },
-    outputTokens: { total: flat.outputTokens, text: undefined, reasoning: undefined },
+    inputTokens: {
+      total: flat.inputTokens,
+      noCache:
+        hasCacheInfo && flat.inputTokens != null
+          ? flat.inputTokens - (flat.cacheReadTokens ?? 0) - (flat.cacheWriteTokens ?? 0)
+          : undefined,
+      cacheRead: flat.cacheReadTokens,
+      cacheWrite: flat.cacheWriteTokens,
+    },
+    outputTokens: {
+      total: flat.outputTokens,
+      text:
+        flat.reasoningTokens != null && flat.outputTokens != null
+          ? flat.outputTokens - flat.reasoningTokens
+          : undefined,
+      reasoning: flat.reasoningTokens,
+    },
   };
 }
 
+function totalTokens(flat: ParsedUsage): number | undefined {
+  return flat.inputTokens != null && flat.outputTokens != null
+    ? flat.inputTokens + flat.outputTokens
+    : undefined;
+}
+
 // ---------------------------------------------------------------------------
 // Config
 // ---------------------------------------------------------------------------
@@ -56,6 +94,37 @@ type AzureFoundryChatConfig = {
   headers: () => Promise<Record<string, string>>;
   fetch?: FetchFunction;
   generateId?: () => string;
+  /**
+   * Shared client-side TPM/RPM limiter. Requests wait here before they are sent.
+   */
+  rateLimiter?: AzureFoundryRateLimiter;
+  /**
+   * `rateLimits` entry this model is counted against. Defaults to the model
+   * ID; pool backends use their deployment's entry or the pooled model ID's.
+   */
+  rateLimitId?: string;
+  /**
+   * Model ID the adapter and model capabilities are detected from. Defaults
+   * to the model ID; pool backends use the pooled model ID so that a
+   * deployment name outside the family's naming is still routed correctly.
+   */
+  familyModelId?: string;
+  /**
+   * Shared per-URL circuit breaker. Requests to an open circuit fail fast.
+   */
+  circuitBreaker?: AzureFoundryCircuitBreaker;
+  /**
+   * Provider-level timeouts. Per-model settings of the same name win.
+   */
+  timeouts?: AzureFoundryTimeouts;
+  /**
+   * OpenTelemetry instrumentation. Each call records a span and histograms.
+   */
+  telemetry?: AzureFoundryTelemetry;
+  /**
+   * Resolved endpoint style, reported on telemetry spans.
+   */
+  endpointStyle?: 'cognitive-services' | 'foundry';
 };
 
 // ---------------------------------------------------------------------------
@@ -67,8 +136,6 @@ export class AzureFoundryChatLanguageModel implements LanguageModelV3 {
 
   readonly modelId: AzureFoundryChatModelId;
 
-  readonly supportedUrls: Record<string, RegExp[]> = {};
-
   private readonly settings: AzureFoundryChatSettings;
   private readonly config: AzureFoundryChatConfig;
   private readonly _generateId: () => string;
@@ -88,6 +155,111 @@ export class AzureFoundryChatLanguageModel implements LanguageModelV3 {
     return this.config.provider;
   }
 
+  /** URLs the resolved adapter's API fetches itself; the AI SDK downloads the rest. */
+  get supportedUrls(): Record<string, RegExp[]> {
+    return resolveAdapter(this.familyModelId, this.settings.adapterType).supportedUrls ?? {};
+  }
+
+  private get familyModelId(): string {
+    return this.config.familyModelId ?? this.modelId;
+  }
+
+  private get adapterType(): AdapterType {
+    return this.settings.adapterType ?? detectAdapterType(this.familyModelId);
+  }
+
+  private createAdapter(): ChatAdapter {
+    return resolveAdapter(this.familyModelId, this.settings.adapterType, this._generateId, {
+      structuredOutputs: this.settings.structuredOutputs,
+      includeUsage: this.settings.includeUsage,
+      familyModelId: this.familyModelId,
+    });
+  }
+
+  private get timeouts(): AzureFoundryTimeouts {
+    const { settings, config } = this;
+    return {
+      requestTimeoutMs: settings.requestTimeoutMs ?? config.timeouts?.requestTimeoutMs,
+      firstChunkTimeoutMs: settings.firstChunkTimeoutMs ?? config.timeouts?.firstChunkTimeoutMs,
+      streamIdleTimeoutMs: settings.streamIdleTimeoutMs ?? config.timeouts?.streamIdleTimeoutMs,
+    };
+  }
+
+  private telemetryInfo(
+    url: string,
+    options: LanguageModelV3CallOptions,
+    streaming: boolean,
+    clientRequestId: string,
+  ): ChatCallInfo {
+    return {
+      modelId: this.modelId,
+      url,
+      clientRequestId,
+      adapterType: this.adapterType,
+      endpointStyle: this.config.endpointStyle,
+      streaming,
+      maxTokens: options.maxOutputTokens,
+      temperature: options.temperature,
+      topP: options.topP,
+    };
+  }
+
+  // -------------------------------------------------------------------------
+  // Settings defaults
+  // -------------------------------------------------------------------------
+
+  /**
+   * Fills unset call options from the per-model settings. Per-call values
+   * always win; a warning is emitted when one overrides a different setting.
+   */
+  private applySettings(options: LanguageModelV3CallOptions): {
+    options: LanguageModelV3CallOptions;
+    warnings: SharedV3Warning[];
+  } {
+    const warnings: SharedV3Warning[] = [];
+    const { settings } = this;
+
+    const pick = <T>(name: string, callValue: T | undefined, settingValue: T | undefined): T | undefined => {
+      if (callValue === undefined) return settingValue;
+      if (settingValue !== undefined && JSON.stringify(callValue) !== JSON.stringify(settingValue)) {
+        warnings.push({
+          type: 'other',
+          message: `${name} ${JSON.stringify(callValue)} from the call overrides the model setting ${JSON.stringify(settingValue)}.`,
+        });
+      }
+      return callValue;
+    };
+
+    const callProviderOptions = options.providerOptions?.['azure-foundry'];
+    // Claude's counterpart is `thinking`, which needs an explicit budget — the
+    // setting is not carried over rather than warned about on every call.
+    const reasoningEffort = pick(
+      'reasoningEffort',
+      callProviderOptions?.reasoningEffort,
+      this.adapterType === 'anthropic' ? undefined : settings.reasoningEffort,
+    );
+
+    return {
+      options: {
+        ...options,
+        maxOutputTokens: pick('maxOutputTokens', options.maxOutputTokens, settings.maxTokens),
+        temperature: pick('temperature', options.temperature, settings.temperature),
+        topP: pick('topP', options.topP, settings.topP),
+        stopSequences: pick('stopSequences', options.stopSequences, settings.stopSequences),
+        seed: pick('seed', options.seed, settings.seed),
+        ...(reasoningEffort !== undefined
+          ? {
+              providerOptions: {
+                ...options.providerOptions,
+                'azure-foundry': { ...callProviderOptions, reasoningEffort },
+              },
+            }
+          : {}),
+      },
+      warnings,
+    };
+  }
+
   // -------------------------------------------------------------------------
   // doGenerate
   // -------------------------------------------------------------------------
@@ -95,44 +267,86 @@ export class AzureFoundryChatLanguageModel implements LanguageModelV3 {
   async doGenerate(
     options: LanguageModelV3CallOptions,
   ): Promise<Awaited<ReturnType<LanguageModelV3['doGenerate']>>> {
-    const adapter = resolveAdapter(
-      this.modelId,
-      this.settings.adapterType,
-      this._generateId,
-    );
+    const adapter = this.createAdapter();
 
-    const { body, warnings } = adapter.buildRequest(
-      options,
+    const { options: callOptions, warnings: settingsWarnings } = this.applySettings(options);
+    const { body, warnings: adapterWarnings } = adapter.buildRequest(
+      callOptions,
       this.modelId,
       this.config.modelInBody,
     );
+    const warnings = [...settingsWarnings, ...adapterWarnings];
 
+    const url = this.config.url(this.modelId, adapter.urlSuffix);
+    // Fail fast on an open circuit instead of spending rate-limit budget.
+    this.config.circuitBreaker?.check(url);
     const headers = await this.config.headers();
-
-    const { value: response, responseHeaders } = await postJsonToApi({
-      url: this.config.url(this.modelId, adapter.urlSuffix),
-      headers: combineHeaders(headers, adapter.additionalHeaders, options.headers, {
+    const { clientRequestId, headers: requestHeaders } = withClientRequestId(
+      combineHeaders(headers, adapter.additionalHeaders, this.settings.headers, options.headers, {
         'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
       }),
-      body,
-      failedResponseHandler: azureFoundryFailedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        adapter.responseSchema as z.ZodType<unknown>,
-      ),
-      abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
-    });
-
-    const parsed = adapter.parseResponse(response);
+    );
+    const timeout = new TimeoutController(url, options.abortSignal);
+    const call = await this.config.telemetry?.startChatCall(
+      this.telemetryInfo(url, callOptions, false, clientRequestId),
+      timeout.signal,
+    );
 
-    return {
-      content: parsed.content,
-      finishReason: parsed.finishReason,
-      usage: toV3Usage(parsed.usage),
-      warnings,
-      request: { body },
-      response: { headers: responseHeaders },
+    const post = () => {
+      timeout.start('request', this.timeouts.requestTimeoutMs);
+      return postJsonToApi({
+        url,
+        headers: combineHeaders(call?.headers, requestHeaders),
+        body,
+        failedResponseHandler: azureFoundryFailedResponseHandler,
+        successfulResponseHandler: createJsonResponseHandler(
+          adapter.responseSchema as z.ZodType<unknown>,
+        ),
+        abortSignal: timeout.signal,
+        fetch: this.config.fetch,
+      }).catch((error) => {
+        throw timeout.errorFor(error);
+      });
     };
+
+    const send = () => this.config.circuitBreaker?.run(url, post) ?? post();
+
+    // The lease is taken right before the request and settled however the
+    // call ends, so a failure never leaves the window charged.
+    let lease: RateLimitLease | undefined;
+    try {
+      lease = await this.config.rateLimiter?.acquire(
+        this.config.rateLimitId ?? this.modelId,
+        url,
+        body,
+        options.abortSignal,
+      );
+      const { value: response, responseHeaders } = await (call?.run(send) ?? send());
+
+      const parsed = adapter.parseResponse(response);
+      lease?.reconcile(totalTokens(parsed.usage));
+      call?.recordResponse(responseHeaders);
+      call?.end(parsed.usage, parsed.finishReason);
+
+      return {
+        content: parsed.content,
+        finishReason: parsed.finishReason,
+        usage: toV3Usage(parsed.usage),
+        providerMetadata: withResponseMetadata(
+          parsed.providerMetadata,
+          parseResponseMetadata(responseHeaders, clientRequestId),
+        ),
+        warnings,
+        request: { body },
+        response: { headers: responseHeaders },
+      };
+    } catch (error) {
+      lease?.fail(error);
+      call?.fail(error);
+      throw error;
+    } finally {
+      timeout.dispose();
+    }
   }
 
   // -------------------------------------------------------------------------
@@ -142,73 +356,178 @@ export class AzureFoundryChatLanguageModel implements LanguageModelV3 {
   async doStream(
     options: LanguageModelV3CallOptions,
   ): Promise<Awaited<ReturnType<LanguageModelV3['doStream']>>> {
-    const adapter = resolveAdapter(
-      this.modelId,
-      this.settings.adapterType,
-      this._generateId,
-    );
+    const adapter = this.createAdapter();
 
-    const { body, warnings } = adapter.buildRequest(
-      options,
+    const { options: callOptions, warnings: settingsWarnings } = this.applySettings(options);
+    const { body, warnings: adapterWarnings } = adapter.buildRequest(
+      callOptions,
       this.modelId,
       this.config.modelInBody,
     );
+    const warnings = [...settingsWarnings, ...adapterWarnings];
 
+    const url = this.config.url(this.modelId, adapter.urlSuffix);
+    // Fail fast on an open circuit instead of spending rate-limit budget.
+    this.config.circuitBreaker?.check(url);
     const headers = await this.config.headers();
+    const { circuitBreaker } = this.config;
+    const { requestTimeoutMs, firstChunkTimeoutMs, streamIdleTimeoutMs } = this.timeouts;
+    const { clientRequestId, headers: requestHeaders } = withClientRequestId(
+      combineHeaders(headers, adapter.additionalHeaders, this.settings.headers, options.headers, {
+        'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
+      }),
+    );
+    const timeout = new TimeoutController(url, options.abortSignal);
+    const call = await this.config.telemetry?.startChatCall(
+      this.telemetryInfo(url, callOptions, true, clientRequestId),
+      timeout.signal,
+    );
 
-    const { value: stream, responseHeaders: streamResponseHeaders } =
-      await postJsonToApi({
-        url: this.config.url(this.modelId, adapter.urlSuffix),
-        headers: combineHeaders(headers, adapter.additionalHeaders, options.headers, {
-          'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
-        }),
-        body: { ...body, stream: true },
+    const post = () => {
+      timeout.start('request', requestTimeoutMs);
+      timeout.start('first-chunk', firstChunkTimeoutMs);
+      return postJsonToApi({
+        url,
+        headers: combineHeaders(call?.headers, requestHeaders),
+        body: { ...body, stream: true, ...adapter.streamBodyExtras },
         failedResponseHandler: azureFoundryFailedResponseHandler,
         successfulResponseHandler: createEventSourceResponseHandler(
           adapter.chunkSchema as z.ZodType<unknown>,
         ),
-        abortSignal: options.abortSignal,
+        abortSignal: timeout.signal,
         fetch: this.config.fetch,
+      }).catch((error) => {
+        timeout.dispose();
+        throw timeout.errorFor(error);
       });
-
-    const streamStartPart: LanguageModelV3StreamPart = {
-      type: 'stream-start',
-      warnings,
     };
 
-    const coreStream = stream.pipeThrough(
-      new TransformStream<ParseResult<unknown>, LanguageModelV3StreamPart>({
-        start(controller) {
-          controller.enqueue(streamStartPart);
-        },
-
-        transform(chunk, controller) {
-          for (const part of adapter.parseChunk(chunk)) {
-            controller.enqueue(part as LanguageModelV3StreamPart);
-          }
-        },
-
-        flush(controller) {
-          for (const part of adapter.flush()) {
-            if (part.type === 'finish') {
-              const v3Part: LanguageModelV3StreamPart = {
-                type: 'finish',
-                finishReason: part.finishReason,
-                usage: toV3Usage(part.usage),
-              };
-              controller.enqueue(v3Part);
-            } else {
-              controller.enqueue(part as LanguageModelV3StreamPart);
+    const send = () => circuitBreaker?.run(url, post) ?? post();
+
+    // The lease is taken right before the request. Once the stream is handed
+    // over, flush, cancel or a timeout settles it; anything that fails before
+    // that refunds it here.
+    let lease: RateLimitLease | undefined;
+    try {
+      lease = await this.config.rateLimiter?.acquire(
+        this.config.rateLimitId ?? this.modelId,
+        url,
+        body,
+        options.abortSignal,
+      );
+      const { value: stream, responseHeaders: streamResponseHeaders } =
+        await (call?.run(send) ?? send());
+      timeout.stop('request');
+      call?.recordResponse(streamResponseHeaders);
+      const responseMetadata = parseResponseMetadata(streamResponseHeaders, clientRequestId);
+
+      // Timeouts and caller aborts end the stream without reaching flush.
+      timeout.signal.addEventListener('abort', () => call?.fail(timeout.signal.reason), { once: true });
+
+      const streamStartPart: LanguageModelV3StreamPart = {
+        type: 'stream-start',
+        warnings,
+      };
+
+      let receivedFirstChunk = false;
+      let live = true;
+
+      // The stream stopped without reaching flush's finish part: pending
+      // deadlines must not fire and blame the backend later, and the prompt
+      // was processed but the rest of the output cap was not used.
+      const abandon = (reason: unknown) => {
+        live = false;
+        timeout.onTimeout = undefined;
+        timeout.dispose();
+        lease?.reconcile(lease.promptTokens);
+        if (reason instanceof Error) call?.fail(reason);
+        else call?.cancel();
+      };
+
+      const coreStream = stream.pipeThrough(
+        new TransformStream<ParseResult<unknown>, LanguageModelV3StreamPart>({
+          start(controller) {
+            controller.enqueue(streamStartPart);
+
+            // A stalled stream is ended with an error part rather than left hanging.
+            timeout.onTimeout = (error) => {
+              if (!live) return;
+              live = false;
+              circuitBreaker?.recordFailure(url, error);
+              lease?.reconcile(lease.promptTokens);
+              try {
+                controller.enqueue({ type: 'error', error });
+                controller.terminate();
+              } catch {
+                // the stream already ended
+              }
+            };
+          },
+
+          transform(chunk, controller) {
+            if (!receivedFirstChunk) {
+              receivedFirstChunk = true;
+              timeout.stop('first-chunk');
             }
-          }
-        },
-      }),
-    );
+            timeout.start('stream-idle', streamIdleTimeoutMs);
 
-    return {
-      stream: coreStream,
-      request: { body },
-      response: { headers: streamResponseHeaders },
-    };
+            try {
+              for (const part of adapter.parseChunk(chunk)) {
+                if (part.type === 'text-delta' || part.type === 'reasoning-delta' || part.type === 'tool-input-delta') {
+                  call?.recordFirstToken();
+                } else if (part.type === 'error') {
+                  call?.fail(part.error);
+                }
+                controller.enqueue(part as LanguageModelV3StreamPart);
+              }
+            } catch (error) {
+              abandon(error);
+              throw error;
+            }
+          },
+
+          // The consumer cancelled or the body errored; flush will not run.
+          cancel(reason) {
+            abandon(reason);
+          },
+
+          flush(controller) {
+            live = false;
+            timeout.dispose();
+            try {
+              for (const part of adapter.flush()) {
+                if (part.type === 'finish') {
+                  lease?.reconcile(totalTokens(part.usage));
+                  call?.end(part.usage, part.finishReason);
+                  const v3Part: LanguageModelV3StreamPart = {
+                    type: 'finish',
+                    finishReason: part.finishReason,
+                    usage: toV3Usage(part.usage),
+                    providerMetadata: withResponseMetadata(part.providerMetadata, responseMetadata),
+                  };
+                  controller.enqueue(v3Part);
+                } else {
+                  controller.enqueue(part as LanguageModelV3StreamPart);
+                }
+              }
+            } catch (error) {
+              abandon(error);
+              throw error;
+            }
+          },
+        }),
+      );
+
+      return {
+        stream: coreStream,
+        request: { body },
+        response: { headers: streamResponseHeaders },
+      };
+    } catch (error) {
+      timeout.dispose();
+      lease?.fail(error);
+      call?.fail(error);
+      throw error;
+    }
   }
 }
@@ -10,6 +10,8 @@ export interface AzureFoundryChatSettings {
    *                       temperature=0 suppressed. For o-series, gpt-5+.
    * - `'openai-legacy'` — OpenAI chat completions v1 style: `max_tokens`,
    *                       temperature forwarded as-is. For gpt-4o, gpt-4, gpt-35-turbo.
+   * - `'openai-responses'` — OpenAI v1 Responses API (`/openai/v1/responses`).
+   *                       For Responses-only deployments such as codex and o-series pro.
    * - `'anthropic'`     — Anthropic Messages API format. For Claude models
    *                       served via Azure AI Foundry or an identity gateway.
    *
@@ -20,8 +22,32 @@ export interface AzureFoundryChatSettings {
    */
   adapterType?: AdapterType;
 
+  /**
+   * Whether the deployment supports native structured outputs
+   * (`response_format: { type: 'json_schema' }`). Only used by the `openai`
+   * and `openai-legacy` adapters.
+   *
+   * When omitted, structured outputs are enabled for OpenAI models known to
+   * support them (gpt-4o, gpt-4.1, gpt-5, o1/o3/o4) and other models fall
+   * back to asking for JSON in the prompt. Set `false` for older gpt-4o
+   * deployments that reject `json_schema`, or `true` for third-party
+   * models that accept it.
+   */
+  structuredOutputs?: boolean;
+
+  /**
+   * Send `stream_options: { include_usage: true }` on streaming requests so
+   * the final chunk reports token usage. Only used by the `openai` and
+   * `openai-legacy` adapters.
+   *
+   * Defaults to `true`. Set `false` for gateways or older api-versions that
+   * reject the field; streamed usage is then reported as undefined.
+   */
+  includeUsage?: boolean;
+
   /**
    * Maximum number of tokens to generate in the response.
+   * Default for `maxOutputTokens` when the call does not set it.
    */
   maxTokens?: number;
 
@@ -35,4 +61,45 @@ export interface AzureFoundryChatSettings {
    * Top-p nucleus sampling. Alternative to temperature.
    */
   topP?: number;
+
+  /**
+   * Sequences that stop generation when produced.
+   */
+  stopSequences?: string[];
+
+  /**
+   * Seed for best-effort deterministic sampling.
+   */
+  seed?: number;
+
+  /**
+   * Reasoning effort for o-series / gpt-5 deployments. Sent as
+   * `providerOptions['azure-foundry'].reasoningEffort` unless the call sets it.
+   * Ignored for Claude models, which use the `thinking` provider option.
+   */
+  reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high';
+
+  /**
+   * Headers sent with every request for this model. Per-call headers win.
+   */
+  headers?: Record<string, string>;
+
+  /**
+   * Abort a request that takes longer than this. Covers the whole call for
+   * `doGenerate` and the wait for response headers for `doStream`.
+   * Overrides the provider-level setting.
+   */
+  requestTimeoutMs?: number;
+
+  /**
+   * Abort a stream whose first chunk has not arrived this long after the
+   * request was sent. Overrides the provider-level setting.
+   */
+  firstChunkTimeoutMs?: number;
+
+  /**
+   * End a stream with an error part when no chunk arrives for this long.
+   * Overrides the provider-level setting.
+   */
+  streamIdleTimeoutMs?: number;
 }
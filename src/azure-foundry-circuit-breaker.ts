@@ -0,0 +1,207 @@
+import { AISDKError, APICallError } from '@ai-sdk/provider';
+import { AzureFoundryTimeoutError } from './azure-foundry-timeout.js';
+
+// ---------------------------------------------------------------------------
+// Circuit breaker
+//
+// Tracks consecutive failures per resolved request URL. After
+// `failureThreshold` failures the circuit opens and calls fail immediately
+// with CircuitOpenError instead of piling onto an unhealthy deployment. Once
+// `resetTimeoutMs` has passed, a limited number of probe calls are let
+// through (half-open): a success closes the circuit, a failure re-opens it.
+//
+// Only signs of an unhealthy backend count as failures — 5xx, 408, network
+// errors and timeouts. Throttling (429) and client errors do not.
+// ---------------------------------------------------------------------------
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export type CircuitStateChangeEvent = {
+  url: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** The failure that opened the circuit, when `to` is `'open'`. */
+  error?: unknown;
+};
+
+export interface AzureFoundryCircuitBreakerSettings {
+  /**
+   * Consecutive failures that open the circuit. Defaults to 5.
+   */
+  failureThreshold?: number;
+
+  /**
+   * How long the circuit stays open before probe calls are allowed.
+   * Defaults to 30000 ms.
+   */
+  resetTimeoutMs?: number;
+
+  /**
+   * Concurrent probe calls allowed while half-open. Defaults to 1.
+   */
+  halfOpenMaxCalls?: number;
+
+  /**
+   * Called on every state transition, e.g. to alert when a deployment's
+   * circuit opens. Errors thrown by the hook are ignored.
+   */
+  onStateChange?: (event: CircuitStateChangeEvent) => void;
+}
+
+const name = 'AzureFoundryCircuitOpenError';
+const marker = `vercel.ai.error.${name}`;
+const symbol = Symbol.for(marker);
+
+/**
+ * Thrown without sending a request while the circuit for `url` is open.
+ */
+export class CircuitOpenError extends AISDKError {
+  private readonly [symbol] = true;
+
+  readonly url: string;
+  /** Time until probe calls are allowed; 0 while a probe is in flight. */
+  readonly retryAfterMs: number;
+
+  constructor({ url, retryAfterMs }: { url: string; retryAfterMs: number }) {
+    super({
+      name,
+      message: `@nquandt/azure-ai-sdk: circuit open for ${url} — failing fast (retry in ${Math.ceil(retryAfterMs / 1000)}s).`,
+    });
+    this.url = url;
+    this.retryAfterMs = retryAfterMs;
+  }
+
+  static isInstance(error: unknown): error is CircuitOpenError {
+    return AISDKError.hasMarker(error, marker);
+  }
+}
+
+/**
+ * Whether an error indicates an unhealthy backend.
+ */
+export function isCircuitFailure(error: unknown): boolean {
+  if (AzureFoundryTimeoutError.isInstance(error)) return true;
+  if (!APICallError.isInstance(error)) return false;
+  if (error.statusCode == null) return error.isRetryable; // network failure
+  return error.statusCode >= 500 || error.statusCode === 408;
+}
+
+type Circuit = {
+  state: CircuitState;
+  failures: number;
+  openedAt: number;
+  probes: number;
+};
+
+const DEFAULT_CIRCUIT_BREAKER_SETTINGS = {
+  failureThreshold: 5,
+  resetTimeoutMs: 30_000,
+  halfOpenMaxCalls: 1,
+};
+
+export class AzureFoundryCircuitBreaker {
+  private readonly circuits = new Map<string, Circuit>();
+  private readonly settings: Required<Omit<AzureFoundryCircuitBreakerSettings, 'onStateChange'>> &
+    Pick<AzureFoundryCircuitBreakerSettings, 'onStateChange'>;
+
+  constructor(settings: AzureFoundryCircuitBreakerSettings = {}) {
+    this.settings = { ...DEFAULT_CIRCUIT_BREAKER_SETTINGS, ...settings };
+  }
+
+  /** Current state for a URL; unknown URLs are closed. */
+  stateOf(url: string): CircuitState {
+    return this.circuits.get(url)?.state ?? 'closed';
+  }
+
+  /**
+   * Runs `fn` under the circuit for `url`, throwing CircuitOpenError without
+   * calling it while the circuit is open.
+   */
+  async run<T>(url: string, fn: () => PromiseLike<T>): Promise<T> {
+    const circuit = this.admit(url);
+    const isProbe = circuit.state === 'half-open';
+    try {
+      const result = await fn();
+      this.recordSuccess(url);
+      return result;
+    } catch (error) {
+      if (isCircuitFailure(error)) this.recordFailure(url, error);
+      else if (APICallError.isInstance(error)) this.recordSuccess(url); // the backend answered
+      throw error;
+    } finally {
+      if (isProbe) circuit.probes--;
+    }
+  }
+
+  /**
+   * Throws CircuitOpenError if `run` would reject a call to `url` right now,
+   * without taking a probe slot. Lets callers fail fast before queueing.
+   */
+  check(url: string): void {
+    const circuit = this.circuits.get(url);
+    if (circuit?.state === 'open') {
+      const retryAfterMs = circuit.openedAt + this.settings.resetTimeoutMs - Date.now();
+      if (retryAfterMs > 0) throw new CircuitOpenError({ url, retryAfterMs });
+    } else if (circuit?.state === 'half-open' && circuit.probes >= this.settings.halfOpenMaxCalls) {
+      throw new CircuitOpenError({ url, retryAfterMs: 0 });
+    }
+  }
+
+  /**
+   * Counts a failure seen after `run` returned, e.g. a stream that errors
+   * mid-response.
+   */
+  recordFailure(url: string, error: unknown): void {
+    const circuit = this.circuitFor(url);
+    if (circuit.state === 'half-open') {
+      this.transition(url, circuit, 'open', error);
+      return;
+    }
+    if (circuit.state === 'closed' && ++circuit.failures >= this.settings.failureThreshold) {
+      this.transition(url, circuit, 'open', error);
+    }
+  }
+
+  private recordSuccess(url: string): void {
+    const circuit = this.circuitFor(url);
+    circuit.failures = 0;
+    if (circuit.state === 'half-open') this.transition(url, circuit, 'closed');
+  }
+
+  private admit(url: string): Circuit {
+    const circuit = this.circuitFor(url);
+    if (circuit.state === 'open') {
+      const retryAfterMs = circuit.openedAt + this.settings.resetTimeoutMs - Date.now();
+      if (retryAfterMs > 0) throw new CircuitOpenError({ url, retryAfterMs });
+      this.transition(url, circuit, 'half-open');
+    }
+    if (circuit.state === 'half-open') {
+      if (circuit.probes >= this.settings.halfOpenMaxCalls) {
+        throw new CircuitOpenError({ url, retryAfterMs: 0 });
+      }
+      circuit.probes++;
+    }
+    return circuit;
+  }
+
+  private circuitFor(url: string): Circuit {
+    let circuit = this.circuits.get(url);
+    if (!circuit) {
+      circuit = { state: 'closed', failures: 0, openedAt: 0, probes: 0 };
+      this.circuits.set(url, circuit);
+    }
+    return circuit;
+  }
+
+  private transition(url: string, circuit: Circuit, to: CircuitState, error?: unknown): void {
+    const from = circuit.state;
+    circuit.state = to;
+    if (to === 'open') circuit.openedAt = Date.now();
+    if (to !== 'half-open') circuit.failures = 0;
+    try {
+      this.settings.onStateChange?.({ url, from, to, ...(error !== undefined ? { error } : {}) });
+    } catch {
+      // never let an alerting hook break the call
+    }
+  }
+}
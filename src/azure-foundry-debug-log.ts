@@ -0,0 +1,357 @@
+import { FetchFunction, generateId } from '@ai-sdk/provider-utils';
+import { FileHandle, mkdir, open, rename, unlink } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { RetryEvent } from './azure-foundry-retry.js';
+
+// ---------------------------------------------------------------------------
+// Debug log
+//
+// Appends one JSON object per line to a local file:
+//
+//   {"time":"…","level":"info","msg":"response","callId":"…","status":200,…}
+//
+// Every HTTP call made through the provider's fetch gets a `callId` — its
+// `x-ms-client-request-id` — shared by its request, retry, response and
+// error records. Credential headers are
+// always redacted; request and response bodies are only written when
+// `captureBodies` is set. The file rotates to `<file>.1` … `<file>.<maxFiles>`
+// once it grows past `maxFileBytes`.
+//
+// The default log only records provider setup; per-request records are
+// written once the log is configured explicitly. Records are queued and
+// appended in the background, so logging never blocks the caller: each file
+// is opened once per process, its size tracked in memory, and whatever has
+// queued up since the last write goes out in one.
+// ---------------------------------------------------------------------------
+
+export type AzureFoundryLogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface AzureFoundryDebugLogSettings {
+  /**
+   * Path of the log file. Defaults to the `AZURE_AI_SDK_DEBUG_LOG`
+   * environment variable, then `<os.tmpdir()>/azure-ai-sdk-debug.log`.
+   */
+  file?: string;
+
+  /**
+   * Lowest level written. Defaults to the `AZURE_AI_SDK_DEBUG_LOG_LEVEL`
+   * environment variable, then `'info'`.
+   */
+  level?: AzureFoundryLogLevel;
+
+  /**
+   * Size at which the file is rotated. Defaults to 10 MiB.
+   */
+  maxFileBytes?: number;
+
+  /**
+   * Rotated files to keep. Defaults to 3; 0 discards the old file.
+   */
+  maxFiles?: number;
+
+  /**
+   * Write request and JSON response bodies (at `'debug'` level). They may
+   * contain prompts and completions, so this is off by default. Streamed and
+   * binary bodies are never captured.
+   */
+  captureBodies?: boolean;
+
+  /**
+   * Additional header names to redact, on top of `Authorization`, `api-key`
+   * and `Ocp-Apim-Subscription-Key`.
+   */
+  redactHeaders?: string[];
+
+  /**
+   * Log every HTTP request, response and retry. Defaults to true; the log a
+   * provider writes when `debugLog` and `AZURE_AI_SDK_DEBUG_LOG` are both
+   * unset leaves it off, even when `debugLogFile` moves it.
+   */
+  requests?: boolean;
+}
+
+const LEVELS: Record<AzureFoundryLogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED_HEADERS = ['authorization', 'api-key', 'ocp-apim-subscription-key'];
+
+const DEFAULT_DEBUG_LOG_SETTINGS = {
+  maxFileBytes: 10 * 1024 * 1024,
+  maxFiles: 3,
+  captureBodies: false,
+};
+
+const env = (name: string): string | undefined =>
+  typeof process !== 'undefined' ? process.env[name] || undefined : undefined;
+
+/** `AZURE_AI_SDK_DEBUG_LOG` holds either a file path or `off`. */
+const envFile = (): string | undefined => {
+  const value = env('AZURE_AI_SDK_DEBUG_LOG');
+  return value?.toLowerCase() === 'off' ? undefined : value;
+};
+
+function ignoreMissing(error: NodeJS.ErrnoException): void {
+  if (error.code !== 'ENOENT') throw error;
+}
+
+type Rotation = { maxFileBytes: number; maxFiles: number };
+
+type QueuedLine = { line: string; bytes: number; rotation: Rotation };
+
+/**
+ * Appends to one log file. Lines are queued by `append` and written in order
+ * by a single drain loop, which also rotates the file.
+ */
+class LogFile {
+  private queue: QueuedLine[] = [];
+  private handle?: FileHandle;
+  private size = 0;
+  private draining?: Promise<void>;
+
+  constructor(private readonly path: string) {}
+
+  append(line: QueuedLine): void {
+    this.queue.push(line);
+    this.draining ??= this.drain();
+  }
+
+  /** Resolves once every line queued so far has been written (or dropped). */
+  flush(): Promise<void> {
+    return this.draining ?? Promise.resolve();
+  }
+
+  private async drain(): Promise<void> {
+    try {
+      while (this.queue.length > 0) {
+        const lines = this.queue;
+        this.queue = [];
+        try {
+          await this.write(lines);
+        } catch {
+          // never let debug logging break the provider; reopen on the next line
+          await this.close();
+        }
+      }
+    } finally {
+      this.draining = undefined;
+    }
+  }
+
+  private async write(lines: QueuedLine[]): Promise<void> {
+    let handle = await this.open();
+    let chunk = '';
+    let bytes = 0;
+    for (const line of lines) {
+      const { maxFileBytes } = line.rotation;
+      if (this.size + bytes > 0 && this.size + bytes + line.bytes > maxFileBytes) {
+        if (chunk) await handle.write(chunk);
+        this.size += bytes;
+        chunk = '';
+        bytes = 0;
+        handle = await this.rotate(line.rotation);
+      }
+      chunk += line.line;
+      bytes += line.bytes;
+    }
+    if (chunk) await handle.write(chunk);
+    this.size += bytes;
+  }
+
+  private async open(): Promise<FileHandle> {
+    if (!this.handle) {
+      await mkdir(dirname(this.path), { recursive: true });
+      const handle = await open(this.path, 'a');
+      this.size = (await handle.stat()).size;
+      this.handle = handle;
+    }
+    return this.handle;
+  }
+
+  private async close(): Promise<void> {
+    const handle = this.handle;
+    this.handle = undefined;
+    await handle?.close().catch(() => {});
+  }
+
+  private async rotate({ maxFiles }: Rotation): Promise<FileHandle> {
+    await this.close();
+    if (maxFiles <= 0) {
+      await unlink(this.path).catch(ignoreMissing);
+    } else {
+      for (let i = maxFiles - 1; i >= 1; i--) {
+        await rename(`${this.path}.${i}`, `${this.path}.${i + 1}`).catch(ignoreMissing);
+      }
+      await rename(this.path, `${this.path}.1`).catch(ignoreMissing);
+    }
+    return this.open();
+  }
+}
+
+/** Log files by path, shared by every provider in the process. */
+const logFiles = new Map<string, LogFile>();
+
+/** Resolves once every debug log record written so far is on disk. */
+export async function flushDebugLogs(): Promise<void> {
+  await Promise.all([...logFiles.values()].map((file) => file.flush()));
+}
+
+function isLogLevel(value: string | undefined): value is AzureFoundryLogLevel {
+  return value != null && value in LEVELS;
+}
+
+function urlOf(input: Parameters<FetchFunction>[0]): string {
+  if (typeof input === 'string') return input;
+  return input instanceof URL ? input.href : input.url;
+}
+
+function readBody(body: RequestInit['body'] | string): unknown {
+  if (body == null) return undefined;
+  if (typeof body !== 'string') return '[binary]';
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+export class AzureFoundryDebugLog {
+  readonly file: string;
+  /** Whether HTTP calls and retries are logged. */
+  readonly requests: boolean;
+
+  private readonly level: number;
+  private readonly settings: Required<Pick<AzureFoundryDebugLogSettings, 'maxFileBytes' | 'maxFiles' | 'captureBodies'>>;
+  private readonly redacted: Set<string>;
+  private readonly callIds = new WeakMap<AbortSignal, string>();
+
+  constructor(settings: AzureFoundryDebugLogSettings = {}) {
+    this.file = settings.file ?? envFile() ?? join(tmpdir(), 'azure-ai-sdk-debug.log');
+    const envLevel = env('AZURE_AI_SDK_DEBUG_LOG_LEVEL')?.toLowerCase();
+    this.level = LEVELS[settings.level ?? (isLogLevel(envLevel) ? envLevel : 'info')];
+    this.settings = {
+      maxFileBytes: settings.maxFileBytes ?? DEFAULT_DEBUG_LOG_SETTINGS.maxFileBytes,
+      maxFiles: settings.maxFiles ?? DEFAULT_DEBUG_LOG_SETTINGS.maxFiles,
+      captureBodies: settings.captureBodies ?? DEFAULT_DEBUG_LOG_SETTINGS.captureBodies,
+    };
+    this.redacted = new Set([...REDACTED_HEADERS, ...(settings.redactHeaders ?? []).map((h) => h.toLowerCase())]);
+    this.requests = settings.requests ?? true;
+  }
+
+  debug(msg: string, fields?: Record<string, unknown>): void {
+    this.write('debug', msg, fields);
+  }
+
+  info(msg: string, fields?: Record<string, unknown>): void {
+    this.write('info', msg, fields);
+  }
+
+  warn(msg: string, fields?: Record<string, unknown>): void {
+    this.write('warn', msg, fields);
+  }
+
+  error(msg: string, fields?: Record<string, unknown>): void {
+    this.write('error', msg, fields);
+  }
+
+  /** Copies headers into a plain object with credentials masked. */
+  redactHeaders(headers: RequestInit['headers'] | Headers): Record<string, string> {
+    const result: Record<string, string> = {};
+    new Headers(headers).forEach((value, key) => {
+      result[key] = this.redacted.has(key) ? '[REDACTED]' : value;
+    });
+    return result;
+  }
+
+  /**
+   * Wraps a fetch function so that every call is logged under its own
+   * correlation id. Wrap outside the retry policy: one call, one `callId`.
+   */
+  wrapFetch(fetch: FetchFunction | undefined): FetchFunction {
+    return async (input, init) => {
+      // Reuse the request's client id so log lines can be matched with Azure's.
+      const callId = new Headers(init?.headers).get('x-ms-client-request-id') ?? generateId();
+      const url = urlOf(input);
+      const startedAt = Date.now();
+      if (init?.signal) this.callIds.set(init.signal, callId);
+
+      this.info('request', { callId, method: init?.method ?? 'GET', url });
+      this.debug('request headers', { callId, headers: this.redactHeaders(init?.headers) });
+      if (this.settings.captureBodies) {
+        this.debug('request body', { callId, body: readBody(init?.body) });
+      }
+
+      let response: Response;
+      try {
+        response = await (fetch ?? globalThis.fetch)(input, init);
+      } catch (error) {
+        this.error('request failed', {
+          callId,
+          url,
+          durationMs: Date.now() - startedAt,
+          error: error instanceof Error ? error.message : String(error),
+        });
+        throw error;
+      }
+
+      this.write(response.ok ? 'info' : 'warn', 'response', {
+        callId,
+        status: response.status,
+        durationMs: Date.now() - startedAt,
+      });
+      this.debug('response headers', { callId, headers: this.redactHeaders(response.headers) });
+      if (this.settings.captureBodies && response.headers.get('content-type')?.includes('json')) {
+        const text = await response.clone().text().catch(() => undefined);
+        this.debug('response body', { callId, body: readBody(text) });
+      }
+      return response;
+    };
+  }
+
+  /** Hook for the retry policy. */
+  readonly recordRetry = (event: RetryEvent): void => {
+    if (!this.requests) return;
+    this.warn('retry', {
+      ...(event.signal && this.callIds.has(event.signal) ? { callId: this.callIds.get(event.signal) } : {}),
+      attempt: event.attempt,
+      delayMs: Math.round(event.delayMs),
+      ...(event.status != null ? { status: event.status } : {}),
+      ...(event.error != null
+        ? { error: event.error instanceof Error ? event.error.message : String(event.error) }
+        : {}),
+    });
+  };
+
+  /** Resolves once every record this log has written so far is on disk. */
+  flush(): Promise<void> {
+    return logFiles.get(this.file)?.flush() ?? Promise.resolve();
+  }
+
+  private write(level: AzureFoundryLogLevel, msg: string, fields?: Record<string, unknown>): void {
+    if (LEVELS[level] < this.level) return;
+    try {
+      const line = `${JSON.stringify({ time: new Date().toISOString(), level, msg, ...fields })}\n`;
+      let file = logFiles.get(this.file);
+      if (!file) logFiles.set(this.file, (file = new LogFile(this.file)));
+      file.append({ line, bytes: Buffer.byteLength(line), rotation: this.settings });
+    } catch {
+      // never let debug logging break the provider
+    }
+  }
+}
+
+/**
+ * Resolves the `debugLog` provider option. The log is on by default, without
+ * request records unless `AZURE_AI_SDK_DEBUG_LOG` names a file; `file` (the
+ * `debugLogFile` shorthand) only moves that default log. `false` turns file
+ * output off, and so does `AZURE_AI_SDK_DEBUG_LOG=off` — whatever the option
+ * says, so that it works as a switch for deployed code.
+ */
+export function createDebugLog(
+  option: boolean | AzureFoundryDebugLogSettings | undefined,
+  file?: string,
+): AzureFoundryDebugLog | undefined {
+  if (option === false) return undefined;
+  if (env('AZURE_AI_SDK_DEBUG_LOG')?.toLowerCase() === 'off') return undefined;
+  if (option === undefined) return new AzureFoundryDebugLog({ file, requests: envFile() !== undefined });
+  return new AzureFoundryDebugLog(option === true ? {} : option);
+}
@@ -0,0 +1,160 @@
+import {
+  AISDKError,
+  APICallError,
+  LanguageModelV3,
+  LanguageModelV3CallOptions,
+} from '@ai-sdk/provider';
+import { isAbortError } from '@ai-sdk/provider-utils';
+import { CircuitOpenError } from './azure-foundry-circuit-breaker.js';
+import { getRetryAfterMs } from './azure-foundry-retry.js';
+import { AzureFoundryTimeoutError } from './azure-foundry-timeout.js';
+
+// ---------------------------------------------------------------------------
+// Deployment pool
+//
+// Routes calls for one model id across several backends (regions, resources)
+// that each serve the same model. A backend that fails with a retryable error
+// (429, 5xx, network, timeout) is put on cooldown and the call fails over to the next
+// one. Failover happens before a response is returned: once a stream has been
+// handed to the caller it stays on its backend.
+// ---------------------------------------------------------------------------
+
+export type AzureFoundryPoolStrategy = 'round-robin' | 'least-throttled';
+
+export type AzureFoundryPoolMember = {
+  /** Chat model bound to one backend. */
+  model: LanguageModelV3;
+  /** Relative share of traffic under round-robin. */
+  weight: number;
+};
+
+type MemberState = AzureFoundryPoolMember & {
+  index: number;
+  /** Epoch ms until which the backend is skipped. */
+  cooldownUntil: number;
+  /** Epoch ms of the most recent retryable failure. */
+  lastThrottledAt: number;
+  /** Smooth weighted round-robin counter. */
+  currentWeight: number;
+};
+
+const DEFAULT_COOLDOWN_MS = 30_000;
+
+/**
+ * Errors worth trying on another backend: retryable API errors (429, 5xx,
+ * network failures), timeouts, open circuits, and failures outside the AI
+ * SDK such as token acquisition. Client errors (400, 401, invalid arguments) would fail
+ * the same way everywhere and are rethrown immediately.
+ */
+function isFailoverError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+  if (CircuitOpenError.isInstance(error) || AzureFoundryTimeoutError.isInstance(error)) return true;
+  if (APICallError.isInstance(error)) return error.isRetryable;
+  return !AISDKError.isInstance(error);
+}
+
+function cooldownFor(error: unknown, fallbackMs: number): number {
+  if (CircuitOpenError.isInstance(error)) return error.retryAfterMs;
+  if (APICallError.isInstance(error) && error.responseHeaders) {
+    return getRetryAfterMs(new Headers(error.responseHeaders)) ?? fallbackMs;
+  }
+  return fallbackMs;
+}
+
+export class AzureFoundryPooledLanguageModel implements LanguageModelV3 {
+  readonly specificationVersion = 'v3' as const;
+
+  readonly modelId: string;
+
+  private readonly members: MemberState[];
+  private readonly strategy: AzureFoundryPoolStrategy;
+  private readonly cooldownMs: number;
+
+  constructor(
+    modelId: string,
+    members: AzureFoundryPoolMember[],
+    options: { strategy?: AzureFoundryPoolStrategy; cooldownMs?: number } = {},
+  ) {
+    if (members.length === 0) {
+      throw new Error(`@nquandt/azure-ai-sdk: deployment pool for ${modelId} has no backends.`);
+    }
+    this.modelId = modelId;
+    this.members = members.map((member, index) => ({
+      ...member,
+      index,
+      cooldownUntil: 0,
+      lastThrottledAt: 0,
+      currentWeight: 0,
+    }));
+    this.strategy = options.strategy ?? 'round-robin';
+    this.cooldownMs = options.cooldownMs ?? DEFAULT_COOLDOWN_MS;
+  }
+
+  get provider(): string {
+    return this.members[0].model.provider;
+  }
+
+  get supportedUrls() {
+    return this.members[0].model.supportedUrls;
+  }
+
+  doGenerate(options: LanguageModelV3CallOptions) {
+    return this.route((model) => model.doGenerate(options), options.abortSignal);
+  }
+
+  doStream(options: LanguageModelV3CallOptions) {
+    return this.route((model) => model.doStream(options), options.abortSignal);
+  }
+
+  // -------------------------------------------------------------------------
+  // Routing
+  // -------------------------------------------------------------------------
+
+  /**
+   * Tries backends in routing order until one succeeds. Backends on cooldown
+   * are only used when every backend is cooling down, soonest-available first.
+   */
+  private async route<T>(
+    call: (model: LanguageModelV3) => PromiseLike<T>,
+    abortSignal: AbortSignal | undefined,
+  ): Promise<T> {
+    let lastError: unknown;
+    for (const member of this.order()) {
+      try {
+        return await call(member.model);
+      } catch (error) {
+        if (abortSignal?.aborted || !isFailoverError(error)) throw error;
+        const now = Date.now();
+        member.lastThrottledAt = now;
+        member.cooldownUntil = now + cooldownFor(error, this.cooldownMs);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  private order(): MemberState[] {
+    const now = Date.now();
+    const available = this.members.filter((m) => m.cooldownUntil <= now);
+    if (available.length === 0) {
+      return [...this.members].sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    }
+
+    if (this.strategy === 'least-throttled') {
+      return available.sort(
+        (a, b) => a.lastThrottledAt - b.lastThrottledAt || b.weight - a.weight || a.index - b.index,
+      );
+    }
+
+    // Smooth weighted round-robin: spreads a 3:1 weighting as A A B A rather
+    // than A A A B. The remaining backends follow in pool order as fallbacks.
+    const total = available.reduce((sum, m) => sum + m.weight, 0);
+    let picked = available[0];
+    for (const member of available) {
+      member.currentWeight += member.weight;
+      if (member.currentWeight > picked.currentWeight) picked = member;
+    }
+    picked.currentWeight -= total;
+    return [picked, ...available.filter((m) => m !== picked)];
+  }
+}
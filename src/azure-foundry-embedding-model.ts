@@ -0,0 +1,193 @@
+import {
+  EmbeddingModelV3,
+  EmbeddingModelV3CallOptions,
+  EmbeddingModelV3Embedding,
+  SharedV3Headers,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { azureFoundryFailedResponseHandler } from './azure-foundry-error.js';
+import {
+  AzureFoundryEmbeddingModelId,
+  AzureFoundryEmbeddingSettings,
+} from './azure-foundry-embedding-options.js';
+import { withClientRequestId } from './azure-foundry-response-metadata.js';
+import { VERSION } from './version.js';
+
+// Azure OpenAI rejects embedding requests with more than 2048 inputs.
+const DEFAULT_MAX_EMBEDDINGS_PER_CALL = 2048;
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const embeddingResponseSchema = z.object({
+  data: z.array(
+    z.object({
+      index: z.number().nullish(),
+      // number[] for encoding_format=float, base64 string for encoding_format=base64
+      embedding: z.union([z.array(z.number()), z.string()]),
+    }),
+  ),
+  model: z.string().nullish(),
+  usage: z
+    .object({
+      prompt_tokens: z.number().nullish(),
+      total_tokens: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+type EmbeddingResponse = z.infer<typeof embeddingResponseSchema>;
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+function decodeEmbedding(embedding: number[] | string): EmbeddingModelV3Embedding {
+  if (Array.isArray(embedding)) return embedding;
+  // base64 payloads are packed little-endian float32 values
+  const bytes = convertBase64ToUint8Array(embedding);
+  return Array.from(new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4));
+}
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+type AzureFoundryEmbeddingConfig = {
+  provider: string;
+  /**
+   * Builds the full URL for a given deployment/model ID and route suffix.
+   */
+  url: (modelId: string, urlSuffix?: string) => string;
+  /**
+   * When true, the model ID is sent in the request body as `model`.
+   * Used for AI Foundry inference endpoints (services.ai.azure.com/models).
+   */
+  modelInBody: boolean;
+  /**
+   * Returns Bearer token headers for every request.
+   */
+  headers: () => Promise<Record<string, string>>;
+  fetch?: FetchFunction;
+};
+
+// ---------------------------------------------------------------------------
+// Embedding model implementation
+// ---------------------------------------------------------------------------
+
+export class AzureFoundryEmbeddingModel implements EmbeddingModelV3 {
+  readonly specificationVersion = 'v3' as const;
+
+  readonly modelId: AzureFoundryEmbeddingModelId;
+
+  readonly supportsParallelCalls = true;
+
+  private readonly settings: AzureFoundryEmbeddingSettings;
+  private readonly config: AzureFoundryEmbeddingConfig;
+
+  constructor(
+    modelId: AzureFoundryEmbeddingModelId,
+    settings: AzureFoundryEmbeddingSettings,
+    config: AzureFoundryEmbeddingConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  get maxEmbeddingsPerCall(): number {
+    return this.settings.maxEmbeddingsPerCall ?? DEFAULT_MAX_EMBEDDINGS_PER_CALL;
+  }
+
+  // -------------------------------------------------------------------------
+  // doEmbed
+  // -------------------------------------------------------------------------
+
+  async doEmbed(
+    options: EmbeddingModelV3CallOptions,
+  ): Promise<Awaited<ReturnType<EmbeddingModelV3['doEmbed']>>> {
+    const embeddings: EmbeddingModelV3Embedding[] = [];
+    let tokens: number | undefined;
+    let lastHeaders: SharedV3Headers | undefined;
+    const rawResponses: EmbeddingResponse[] = [];
+
+    // Split large inputs into sequential batches so callers can pass arrays
+    // larger than the deployment limit without hitting a 400.
+    const batchSize = Math.max(1, this.maxEmbeddingsPerCall);
+    for (let start = 0; start < options.values.length; start += batchSize) {
+      const values = options.values.slice(start, start + batchSize);
+      const { response, responseHeaders } = await this.embedBatch(values, options);
+
+      // Azure returns items in input order, but sort by index defensively.
+      const ordered = [...response.data].sort(
+        (a, b) => (a.index ?? 0) - (b.index ?? 0),
+      );
+      for (const item of ordered) {
+        embeddings.push(decodeEmbedding(item.embedding));
+      }
+
+      if (response.usage?.prompt_tokens != null) {
+        tokens = (tokens ?? 0) + response.usage.prompt_tokens;
+      }
+      lastHeaders = responseHeaders;
+      rawResponses.push(response);
+    }
+
+    return {
+      embeddings,
+      usage: tokens !== undefined ? { tokens } : undefined,
+      warnings: [],
+      response: {
+        headers: lastHeaders,
+        body: rawResponses.length === 1 ? rawResponses[0] : rawResponses,
+      },
+    };
+  }
+
+  private async embedBatch(
+    values: string[],
+    options: EmbeddingModelV3CallOptions,
+  ): Promise<{ response: EmbeddingResponse; responseHeaders: SharedV3Headers | undefined }> {
+    const body: Record<string, unknown> = {
+      ...(this.config.modelInBody ? { model: this.modelId } : {}),
+      input: values,
+      dimensions: this.settings.dimensions,
+      encoding_format: this.settings.encodingFormat,
+      user: this.settings.user,
+    };
+
+    for (const key of Object.keys(body)) {
+      if (body[key] === undefined) delete body[key];
+    }
+
+    const headers = await this.config.headers();
+
+    const { value: response, responseHeaders } = await postJsonToApi({
+      url: this.config.url(this.modelId, '/embeddings'),
+      headers: withClientRequestId(
+        combineHeaders(headers, options.headers, {
+          'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
+        }),
+      ).headers,
+      body,
+      failedResponseHandler: azureFoundryFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(embeddingResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return { response, responseHeaders };
+  }
+}
@@ -0,0 +1,34 @@
+export type AzureFoundryEmbeddingModelId = string;
+
+export interface AzureFoundryEmbeddingSettings {
+  /**
+   * Number of dimensions the resulting embeddings should have.
+   * Only supported by `text-embedding-3` and later models.
+   */
+  dimensions?: number;
+
+  /**
+   * Wire format used for the returned vectors.
+   *
+   * - `'float'`  (default) — JSON arrays of numbers.
+   * - `'base64'` — little-endian float32 buffers encoded as base64. Roughly
+   *                4x smaller on the wire; decoded back to numbers before
+   *                being returned to the AI SDK.
+   */
+  encodingFormat?: 'float' | 'base64';
+
+  /**
+   * Maximum number of input values sent in a single request. Larger input
+   * arrays are split into sequential batches of this size.
+   *
+   * Defaults to 2048, the Azure OpenAI limit for embedding deployments.
+   * Lower it for deployments (or Foundry serverless models) that enforce a
+   * smaller per-request limit.
+   */
+  maxEmbeddingsPerCall?: number;
+
+  /**
+   * End-user identifier forwarded as `user` for abuse monitoring.
+   */
+  user?: string;
+}
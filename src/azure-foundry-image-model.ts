@@ -0,0 +1,194 @@
+import {
+  ImageModelV3,
+  ImageModelV3CallOptions,
+  SharedV3Warning,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  createJsonResponseHandler,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { azureFoundryFailedResponseHandler } from './azure-foundry-error.js';
+import {
+  AzureFoundryImageModelId,
+  AzureFoundryImageSettings,
+} from './azure-foundry-image-options.js';
+import { withClientRequestId } from './azure-foundry-response-metadata.js';
+import { VERSION } from './version.js';
+
+// ---------------------------------------------------------------------------
+// Model ID heuristics
+//
+// gpt-image-* always returns base64 and rejects `response_format`; DALL-E
+// returns URLs unless `response_format: 'b64_json'` is requested and only
+// accepts n=1 for DALL-E 3.
+// ---------------------------------------------------------------------------
+
+const GPT_IMAGE_PATTERN = /^gpt-image/i;
+const DALL_E_3_PATTERN = /^dall-e-3/i;
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const imageResponseSchema = z.object({
+  created: z.number().nullish(),
+  data: z.array(
+    z.object({
+      b64_json: z.string(),
+      revised_prompt: z.string().nullish(),
+      content_filter_results: z.unknown().nullish(),
+      prompt_filter_results: z.unknown().nullish(),
+    }),
+  ),
+  usage: z
+    .object({
+      input_tokens: z.number().nullish(),
+      output_tokens: z.number().nullish(),
+      total_tokens: z.number().nullish(),
+    })
+    .nullish(),
+});
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+type AzureFoundryImageConfig = {
+  provider: string;
+  /**
+   * Builds the full URL for a given deployment/model ID and route suffix.
+   */
+  url: (modelId: string, urlSuffix?: string) => string;
+  /**
+   * When true, the model ID is sent in the request body as `model`.
+   * Used for AI Foundry inference endpoints (services.ai.azure.com/models).
+   */
+  modelInBody: boolean;
+  /**
+   * Returns Bearer token headers for every request.
+   */
+  headers: () => Promise<Record<string, string>>;
+  fetch?: FetchFunction;
+};
+
+// ---------------------------------------------------------------------------
+// Image model implementation
+// ---------------------------------------------------------------------------
+
+export class AzureFoundryImageModel implements ImageModelV3 {
+  readonly specificationVersion = 'v3' as const;
+
+  readonly modelId: AzureFoundryImageModelId;
+
+  private readonly settings: AzureFoundryImageSettings;
+  private readonly config: AzureFoundryImageConfig;
+
+  constructor(
+    modelId: AzureFoundryImageModelId,
+    settings: AzureFoundryImageSettings,
+    config: AzureFoundryImageConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  get maxImagesPerCall(): number {
+    if (this.settings.maxImagesPerCall != null) return this.settings.maxImagesPerCall;
+    return DALL_E_3_PATTERN.test(this.modelId) ? 1 : 10;
+  }
+
+  // -------------------------------------------------------------------------
+  // doGenerate
+  // -------------------------------------------------------------------------
+
+  async doGenerate(
+    options: ImageModelV3CallOptions,
+  ): Promise<Awaited<ReturnType<ImageModelV3['doGenerate']>>> {
+    const warnings: SharedV3Warning[] = [];
+
+    if (options.aspectRatio != null) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'aspectRatio',
+        details: 'This model does not support aspect ratio. Use `size` instead.',
+      });
+    }
+    if (options.seed != null) warnings.push({ type: 'unsupported', feature: 'seed' });
+    if (options.files != null || options.mask != null) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'files',
+        details: 'Image editing is not supported; only images/generations is called.',
+      });
+    }
+
+    const isGptImage = GPT_IMAGE_PATTERN.test(this.modelId);
+
+    const body: Record<string, unknown> = {
+      ...(this.config.modelInBody ? { model: this.modelId } : {}),
+      prompt: options.prompt,
+      n: options.n,
+      size: options.size,
+      quality: this.settings.quality,
+      style: this.settings.style,
+      user: this.settings.user,
+      // gpt-image-* always returns base64 and rejects this field
+      ...(isGptImage ? {} : { response_format: 'b64_json' }),
+    };
+
+    for (const key of Object.keys(body)) {
+      if (body[key] === undefined) delete body[key];
+    }
+
+    const headers = await this.config.headers();
+    const timestamp = new Date();
+
+    const { value: response, responseHeaders } = await postJsonToApi({
+      url: this.config.url(this.modelId, '/images/generations'),
+      headers: withClientRequestId(
+        combineHeaders(headers, options.headers, {
+          'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
+        }),
+      ).headers,
+      body,
+      failedResponseHandler: azureFoundryFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(imageResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      images: response.data.map((item) => item.b64_json),
+      warnings,
+      providerMetadata: {
+        'azure-foundry': {
+          images: response.data.map((item) =>
+            item.revised_prompt ? { revisedPrompt: item.revised_prompt } : null,
+          ),
+        },
+      },
+      response: {
+        timestamp,
+        modelId: this.modelId,
+        headers: responseHeaders,
+      },
+      ...(response.usage
+        ? {
+            usage: {
+              inputTokens: response.usage.input_tokens ?? undefined,
+              outputTokens: response.usage.output_tokens ?? undefined,
+              totalTokens: response.usage.total_tokens ?? undefined,
+            },
+          }
+        : {}),
+    };
+  }
+}
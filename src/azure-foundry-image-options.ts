@@ -0,0 +1,30 @@
+export type AzureFoundryImageModelId = string;
+
+export interface AzureFoundryImageSettings {
+  /**
+   * Image quality.
+   *
+   * - DALL-E 3:    `'standard'` | `'hd'`
+   * - gpt-image-*: `'low'` | `'medium'` | `'high'` | `'auto'`
+   */
+  quality?: 'standard' | 'hd' | 'low' | 'medium' | 'high' | 'auto';
+
+  /**
+   * Visual style. DALL-E 3 only: `'vivid'` (default) or `'natural'`.
+   */
+  style?: 'vivid' | 'natural';
+
+  /**
+   * Maximum number of images generated in a single request. The AI SDK
+   * splits larger `n` values across multiple calls.
+   *
+   * Defaults to 1 for DALL-E 3 deployments (Azure rejects `n > 1`) and 10
+   * for everything else.
+   */
+  maxImagesPerCall?: number;
+
+  /**
+   * End-user identifier forwarded as `user` for abuse monitoring.
+   */
+  user?: string;
+}
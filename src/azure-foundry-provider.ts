@@ -1,9 +1,13 @@
-import { LanguageModelV3, NoSuchModelError, ProviderV3 } from '@ai-sdk/provider';
+import {
+  EmbeddingModelV3,
+  ImageModelV3,
+  LanguageModelV3,
+  ProviderV3,
+  SpeechModelV3,
+  TranscriptionModelV3,
+} from '@ai-sdk/provider';
 import { FetchFunction, withoutTrailingSlash } from '@ai-sdk/provider-utils';
 import type { TokenCredential } from '@azure/identity';
-import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs';
-import { tmpdir } from 'node:os';
-import { dirname } from 'node:path';
 import {
   AzureFoundryChatLanguageModel,
 } from './azure-foundry-chat-language-model.js';
@@ -11,6 +15,41 @@ import {
   AzureFoundryChatModelId,
   AzureFoundryChatSettings,
 } from './azure-foundry-chat-options.js';
+import { AzureFoundryEmbeddingModel } from './azure-foundry-embedding-model.js';
+import {
+  AzureFoundryEmbeddingModelId,
+  AzureFoundryEmbeddingSettings,
+} from './azure-foundry-embedding-options.js';
+import { AzureFoundryImageModel } from './azure-foundry-image-model.js';
+import {
+  AzureFoundryImageModelId,
+  AzureFoundryImageSettings,
+} from './azure-foundry-image-options.js';
+import { AzureFoundryTranscriptionModel } from './azure-foundry-transcription-model.js';
+import {
+  AzureFoundryTranscriptionModelId,
+  AzureFoundryTranscriptionSettings,
+} from './azure-foundry-transcription-options.js';
+import {
+  AzureFoundryCircuitBreaker,
+  AzureFoundryCircuitBreakerSettings,
+} from './azure-foundry-circuit-breaker.js';
+import { AzureFoundryDebugLogSettings, createDebugLog } from './azure-foundry-debug-log.js';
+import {
+  AzureFoundryPoolStrategy,
+  AzureFoundryPooledLanguageModel,
+} from './azure-foundry-deployment-pool.js';
+import { AzureFoundryRateLimit, AzureFoundryRateLimiter } from './azure-foundry-rate-limiter.js';
+import { AzureFoundryRetrySettings, RetryEvent, createRetryFetch } from './azure-foundry-retry.js';
+import { AzureFoundrySpeechModel } from './azure-foundry-speech-model.js';
+import {
+  AzureFoundryTelemetry,
+  AzureFoundryTelemetrySettings,
+} from './azure-foundry-telemetry.js';
+import {
+  AzureFoundrySpeechModelId,
+  AzureFoundrySpeechSettings,
+} from './azure-foundry-speech-options.js';
 
 // ---------------------------------------------------------------------------
 // Scope used to obtain tokens for Azure AI Foundry / Azure ML endpoints
@@ -18,6 +57,19 @@ import {
 const COGNITIVE_SERVICES_SCOPE = 'https://cognitiveservices.azure.com/.default';
 const AI_FOUNDRY_SCOPE = 'https://ai.azure.com/.default';
 
+// ---------------------------------------------------------------------------
+// Routes served per deployment. On cognitive-services endpoints these are
+// wrapped as `/openai/deployments/{model}{route}?api-version=...`; on Foundry
+// endpoints they are appended to the `/models` inference base as-is.
+// ---------------------------------------------------------------------------
+const DEPLOYMENT_ROUTES = new Set([
+  '/chat/completions',
+  '/embeddings',
+  '/images/generations',
+  '/audio/transcriptions',
+  '/audio/speech',
+]);
+
 // ---------------------------------------------------------------------------
 // Provider settings
 // ---------------------------------------------------------------------------
@@ -184,6 +236,30 @@ export interface AzureFoundryProviderSettings {
    */
   fetch?: FetchFunction;
 
+  /**
+   * Retry throttled (429), timed-out (408) and failed (5xx) requests, plus
+   * network errors, inside the provider. Off by default.
+   *
+   * Unlike the AI SDK's generic `maxRetries`, this honours the wait Azure
+   * asks for — `retry-after-ms`, APIM's `Retry-After`, and
+   * `x-ratelimit-reset-*` when `x-ratelimit-remaining-*` is exhausted — and
+   * falls back to jittered exponential backoff otherwise. A response that has
+   * already been returned (including a stream that has started) is never
+   * retried. Pass `true` for the defaults or an object to tune the policy.
+   *
+   * Set `maxRetries: 0` on `generateText` / `streamText` when enabling this
+   * so the two retry loops do not multiply.
+   *
+   * Models in a deployment pool are not retried here: a failing backend
+   * fails over to the next one at once instead.
+   *
+   * @example
+   * ```ts
+   * createAzureFoundry({ endpoint: '...', retry: { maxAttempts: 6 } });
+   * ```
+   */
+  retry?: boolean | AzureFoundryRetrySettings;
+
   generateId?: () => string;
 
   /**
@@ -204,16 +280,192 @@ export interface AzureFoundryProviderSettings {
   logger?: Pick<Console, 'error' | 'warn' | 'info'> | null;
 
   /**
-   * Path to write debug log lines to. Defaults to
-   * `<os.tmpdir()>/azure-ai-sdk-debug.log` when not set.
-   * Can also be overridden via the `AZURE_AI_SDK_DEBUG_LOG` environment variable.
-   * The file is overwritten on each provider init (fresh log per run).
+   * Structured JSONL debug log, writing `'info'` and above to
+   * `<os.tmpdir()>/azure-ai-sdk-debug.log` (or the `AZURE_AI_SDK_DEBUG_LOG`
+   * path). Left unset, only provider setup is logged; set it (or
+   * `AZURE_AI_SDK_DEBUG_LOG`) to also log every HTTP call with a correlation
+   * id. Credential headers are always redacted and bodies are only captured
+   * when `captureBodies` is set. The file rotates by size.
+   *
+   * Set to `false` to disable file output. `AZURE_AI_SDK_DEBUG_LOG=off`
+   * disables it regardless of this option.
+   *
+   * @example
+   * ```ts
+   * createAzureFoundry({
+   *   endpoint: '...',
+   *   debugLog: { level: 'debug', captureBodies: true, maxFileBytes: 5_000_000 },
+   * });
+   * ```
+   */
+  debugLog?: boolean | AzureFoundryDebugLogSettings;
+
+  /**
+   * Path of the default debug log file, which still records provider setup
+   * only — use `debugLog: { file }` to also log HTTP calls. Ignored when
+   * `debugLog` is set.
    *
    * @example
    * // In opencode.json options:
    * { "debugLogFile": "/tmp/azure-ai-sdk-debug.log" }
    */
   debugLogFile?: string;
+
+  /**
+   * Deployment pools keyed by model ID. Chat models created for a pooled ID
+   * spread calls across the listed backends and fail over between them on
+   * 429 / 5xx / network errors; every other model ID uses the provider-level
+   * endpoint as usual.
+   *
+   * @example
+   * ```ts
+   * createAzureFoundry({
+   *   endpoint: 'https://eastus.cognitiveservices.azure.com',
+   *   deployments: {
+   *     'gpt-4o': {
+   *       strategy: 'least-throttled',
+   *       backends: [
+   *         { endpoint: 'https://eastus.cognitiveservices.azure.com', weight: 2 },
+   *         { endpoint: 'https://westeu.cognitiveservices.azure.com', deployment: 'gpt-4o-eu' },
+   *       ],
+   *     },
+   *   },
+   * });
+   * ```
+   */
+  deployments?: Record<string, AzureFoundryDeploymentPoolSettings>;
+
+  /**
+   * Client-side quotas keyed by model ID. Chat requests to a listed model
+   * wait in a first-in, first-out queue until its tokens-per-minute and
+   * requests-per-minute budget admits them, instead of being sent and
+   * rejected with 429. Token cost is estimated from the request body and
+   * corrected from the reported usage. Backends of a deployment pool use the
+   * entry for their `deployment` name if there is one, else the pooled model
+   * ID's; each backend endpoint gets its own budget.
+   *
+   * @example
+   * ```ts
+   * createAzureFoundry({
+   *   endpoint: '...',
+   *   rateLimits: { 'gpt-4o': { tokensPerMinute: 150_000, requestsPerMinute: 900 } },
+   * });
+   * ```
+   */
+  rateLimits?: Record<string, AzureFoundryRateLimit>;
+
+  /**
+   * Per-URL circuit breaker for chat requests. Off by default.
+   *
+   * After `failureThreshold` consecutive 5xx / 408 / network / timeout
+   * failures against a URL, further calls to it throw `CircuitOpenError`
+   * immediately until `resetTimeoutMs` has passed and a probe call succeeds. Inside a deployment
+   * pool an open circuit fails over to the next backend. Foundry-style
+   * endpoints send every deployment to the same URL, so they share a circuit.
+   *
+   * @example
+   * ```ts
+   * createAzureFoundry({
+   *   endpoint: '...',
+   *   circuitBreaker: {
+   *     failureThreshold: 3,
+   *     onStateChange: ({ url, to }) => alert(`circuit ${to} for ${url}`),
+   *   },
+   * });
+   * ```
+   */
+  circuitBreaker?: boolean | AzureFoundryCircuitBreakerSettings;
+
+  /**
+   * Abort chat requests that take longer than this: the whole call for
+   * `doGenerate`, the wait for response headers for `doStream`. Raises
+   * `AzureFoundryTimeoutError`. Models can override it per deployment.
+   */
+  requestTimeoutMs?: number;
+
+  /**
+   * Abort a chat stream whose first chunk has not arrived this long after the
+   * request was sent — useful for bounding time-to-first-token.
+   */
+  firstChunkTimeoutMs?: number;
+
+  /**
+   * End a chat stream with an `AzureFoundryTimeoutError` error part when no
+   * chunk arrives for this long, instead of waiting on a stalled connection.
+   */
+  streamIdleTimeoutMs?: number;
+
+  /**
+   * OpenTelemetry instrumentation for chat calls. Off by default; requires
+   * the optional peer dependency `@opentelemetry/api`.
+   *
+   * Each `doGenerate` / `doStream` records a `chat {model}` span with GenAI
+   * semantic-convention attributes (model, server, token usage, finish
+   * reason) plus the resolved URL, adapter type, endpoint style,
+   * time-to-first-token, retry count and Azure request ids, and feeds the
+   * `gen_ai.client.operation.duration` and `gen_ai.client.token.usage`
+   * histograms. The trace context is sent as `traceparent` so APIM can
+   * continue the trace. Pass `true` to use the global tracer and meter.
+   *
+   * @example
+   * ```ts
+   * createAzureFoundry({ endpoint: '...', telemetry: { tracer: myTracer } });
+   * ```
+   */
+  telemetry?: boolean | AzureFoundryTelemetrySettings;
+}
+
+// ---------------------------------------------------------------------------
+// Deployment pool settings
+// ---------------------------------------------------------------------------
+
+/**
+ * One backend of a deployment pool. Endpoint and auth fields behave like the
+ * provider settings of the same name. Unset `credential`, `scope`,
+ * `subscriptionKey` and `apiVersion` fall back to the provider-level values
+ * and `headers` are merged over the provider's; `apiKey` is never inherited,
+ * not even from `AZURE_FOUNDRY_API_KEY`, because keys are per resource.
+ */
+export interface AzureFoundryBackendSettings
+  extends Pick<
+    AzureFoundryProviderSettings,
+    | 'endpoint'
+    | 'resourceName'
+    | 'endpointStyle'
+    | 'apiVersion'
+    | 'credential'
+    | 'scope'
+    | 'apiKey'
+    | 'subscriptionKey'
+    | 'headers'
+  > {
+  /**
+   * Deployment name on this backend, when it differs from the pooled model ID.
+   */
+  deployment?: string;
+
+  /**
+   * Relative share of traffic under `'round-robin'`. Defaults to 1.
+   */
+  weight?: number;
+}
+
+export interface AzureFoundryDeploymentPoolSettings {
+  backends: AzureFoundryBackendSettings[];
+
+  /**
+   * - `'round-robin'` (default) — weighted rotation across healthy backends.
+   * - `'least-throttled'` — prefer the backend whose last 429/5xx is oldest.
+   *
+   * Either way, a failing backend is skipped until its cooldown ends.
+   */
+  strategy?: AzureFoundryPoolStrategy;
+
+  /**
+   * How long a backend is skipped after a retryable failure, when the
+   * response carries no `Retry-After`-style hint. Defaults to 30000 ms.
+   */
+  cooldownMs?: number;
 }
 
 // ---------------------------------------------------------------------------
@@ -253,6 +505,51 @@ export interface AzureFoundryProvider extends ProviderV3 {
     modelId: AzureFoundryChatModelId,
     settings?: AzureFoundryChatSettings,
   ): LanguageModelV3;
+
+  /**
+   * Create an embedding model instance for the given deployment name.
+   */
+  embeddingModel(
+    modelId: AzureFoundryEmbeddingModelId,
+    settings?: AzureFoundryEmbeddingSettings,
+  ): EmbeddingModelV3;
+
+  /**
+   * Same as {@link embeddingModel}.
+   *
+   * @deprecated Use `embeddingModel` instead.
+   */
+  textEmbeddingModel(
+    modelId: AzureFoundryEmbeddingModelId,
+    settings?: AzureFoundryEmbeddingSettings,
+  ): EmbeddingModelV3;
+
+  /**
+   * Create an image generation model (DALL-E, gpt-image) for the given
+   * deployment name.
+   */
+  imageModel(
+    modelId: AzureFoundryImageModelId,
+    settings?: AzureFoundryImageSettings,
+  ): ImageModelV3;
+
+  /**
+   * Create an audio transcription model (Whisper, gpt-4o-transcribe) for the
+   * given deployment name.
+   */
+  transcriptionModel(
+    modelId: AzureFoundryTranscriptionModelId,
+    settings?: AzureFoundryTranscriptionSettings,
+  ): TranscriptionModelV3;
+
+  /**
+   * Create a text-to-speech model (tts, tts-hd, gpt-4o-mini-tts) for the
+   * given deployment name.
+   */
+  speechModel(
+    modelId: AzureFoundrySpeechModelId,
+    settings?: AzureFoundrySpeechSettings,
+  ): SpeechModelV3;
 }
 
 // ---------------------------------------------------------------------------
@@ -297,33 +594,13 @@ export function createAzureFoundry(
   options: AzureFoundryProviderSettings = {},
 ): AzureFoundryProvider {
   // ---------------------------------------------------------------------------
-  // Debug file logger — always writes to a log file.  The path can be
-  // overridden via the `debugLogFile` option or the AZURE_AI_SDK_DEBUG_LOG
-  // env var; it defaults to <tmpdir>/azure-ai-sdk-debug.log.
+  // Debug log — structured JSONL file output, on unless disabled via
+  // `debugLog: false` or AZURE_AI_SDK_DEBUG_LOG=off. HTTP calls are only
+  // logged when the log is configured explicitly.
   // ---------------------------------------------------------------------------
-  const debugFilePath: string =
-    options.debugLogFile ??
-    (typeof process !== 'undefined' && process.env.AZURE_AI_SDK_DEBUG_LOG
-      ? process.env.AZURE_AI_SDK_DEBUG_LOG
-      : `${tmpdir()}/azure-ai-sdk-debug.log`);
-
-  function debugLog(level: 'INFO' | 'WARN' | 'ERROR', msg: string): void {
-    try {
-      mkdirSync(dirname(debugFilePath), { recursive: true });
-      // Overwrite on the first call each process run, append thereafter.
-      if (debugLog.firstWrite) {
-        debugLog.firstWrite = false;
-        writeFileSync(debugFilePath, `[${new Date().toISOString()}] [${level}] ${msg}\n`);
-      } else {
-        appendFileSync(debugFilePath, `[${new Date().toISOString()}] [${level}] ${msg}\n`);
-      }
-    } catch {
-      // never let debug logging break the provider
-    }
-  }
-  debugLog.firstWrite = true;
+  const debugLog = createDebugLog(options.debugLog, options.debugLogFile);
 
-  debugLog('INFO', `createAzureFoundry called — options: ${JSON.stringify({
+  debugLog?.info('createAzureFoundry called', {
     hasResourceName: !!options.resourceName,
     hasEndpoint: !!options.endpoint,
     hasApiKey: !!options.apiKey,
@@ -331,175 +608,328 @@ export function createAzureFoundry(
     hasScope: !!options.scope,
     endpointStyle: options.endpointStyle,
     apiVersion: options.apiVersion,
-  })}`);
+  });
+
+  // null explicitly disables logging; undefined falls back to console.
+  const logger = options.logger === null ? null : (options.logger ?? console);
+
+  const telemetry = options.telemetry
+    ? new AzureFoundryTelemetry(options.telemetry === true ? {} : options.telemetry, logger)
+    : undefined;
+
+  const onRetry = (event: RetryEvent) => {
+    telemetry?.recordRetry(event);
+    debugLog?.recordRetry(event);
+  };
+
+  // Every model shares the same fetch, so the retry policy covers all routes
+  // except pool backends (below).
+  // The debug log wraps the retries so that each call keeps one correlation id.
+  const retryFetch: FetchFunction | undefined = options.retry
+    ? createRetryFetch(options.retry === true ? {} : options.retry, options.fetch, onRetry)
+    : options.fetch;
+  const fetch = debugLog?.requests ? debugLog.wrapFetch(retryFetch) : retryFetch;
+  // Pool backends skip the retry policy: a throttled or failing backend should
+  // fail over to the next one straight away rather than be retried in place.
+  const poolFetch = debugLog?.requests ? debugLog.wrapFetch(options.fetch) : options.fetch;
+
+  const timeouts = {
+    requestTimeoutMs: options.requestTimeoutMs,
+    firstChunkTimeoutMs: options.firstChunkTimeoutMs,
+    streamIdleTimeoutMs: options.streamIdleTimeoutMs,
+  };
+
+  // One limiter and breaker per provider so that every model instance shares
+  // the same budgets and circuit state.
+  const rateLimiter = options.rateLimits
+    ? new AzureFoundryRateLimiter(options.rateLimits)
+    : undefined;
+
+  const circuitBreaker = options.circuitBreaker
+    ? new AzureFoundryCircuitBreaker(options.circuitBreaker === true ? {} : options.circuitBreaker)
+    : undefined;
 
   // ---------------------------------------------------------------------------
-  // Endpoint resolution (priority order):
-  //   1. options.resourceName (+ options.projectId) — explicit code-level names
-  //   2. options.endpoint                           — explicit code-level URL
-  //   3. AZURE_FOUNDRY_RESOURCE env var (+ AZURE_FOUNDRY_PROJECT) — env-based names
-  //   4. AZURE_AI_FOUNDRY_ENDPOINT env var          — env-based full URL
-  //
-  // Explicit code-level options always win over env vars so that unit tests
-  // which pass a specific endpoint are never overridden by a .env file.
+  // Backend resolution — turns one set of endpoint/auth settings into a URL
+  // builder and header source. The provider-level settings form the primary
+  // backend; each `deployments` pool entry is resolved the same way.
   // ---------------------------------------------------------------------------
-  const resolvedEndpoint = (() => {
-    if (options.resourceName) {
-      // projectId is accepted as a config convenience but does not change the URL.
-      // The /models endpoint is the known-working inference surface for all models.
-      return `https://${options.resourceName}.services.ai.azure.com/models`;
-    }
-    if (options.endpoint !== undefined) return options.endpoint;
-    const envResource = typeof process !== 'undefined' ? process.env.AZURE_FOUNDRY_RESOURCE : undefined;
-    if (envResource) {
-      return `https://${envResource}.services.ai.azure.com/models`;
-    }
-    return typeof process !== 'undefined' ? process.env.AZURE_AI_FOUNDRY_ENDPOINT : undefined;
-  })();
+  const createBackend = (settings: AzureFoundryBackendSettings) => {
+    // -------------------------------------------------------------------------
+    // Endpoint resolution (priority order):
+    //   1. settings.resourceName                 — explicit code-level name
+    //   2. settings.endpoint                     — explicit code-level URL
+    //   3. AZURE_FOUNDRY_RESOURCE env var        — env-based name
+    //   4. AZURE_AI_FOUNDRY_ENDPOINT env var     — env-based full URL
+    //
+    // Explicit code-level options always win over env vars so that unit tests
+    // which pass a specific endpoint are never overridden by a .env file.
+    // -------------------------------------------------------------------------
+    const resolvedEndpoint = (() => {
+      if (settings.resourceName) {
+        // projectId is accepted as a config convenience but does not change the URL.
+        // The /models endpoint is the known-working inference surface for all models.
+        return `https://${settings.resourceName}.services.ai.azure.com/models`;
+      }
+      if (settings.endpoint !== undefined) return settings.endpoint;
+      const envResource = typeof process !== 'undefined' ? process.env.AZURE_FOUNDRY_RESOURCE : undefined;
+      if (envResource) {
+        return `https://${envResource}.services.ai.azure.com/models`;
+      }
+      return typeof process !== 'undefined' ? process.env.AZURE_AI_FOUNDRY_ENDPOINT : undefined;
+    })();
+
+    const endpoint = withoutTrailingSlash(resolvedEndpoint) ?? '';
 
-  const endpoint = withoutTrailingSlash(resolvedEndpoint) ?? '';
+    if (!endpoint) {
+      const err = '@nquandt/azure-ai-sdk: An Azure AI Foundry endpoint is required. ' +
+        'Provide it via `resourceName`/`projectId`, the `endpoint` option, or the AZURE_AI_FOUNDRY_ENDPOINT environment variable.';
+      debugLog?.error(err);
+      throw new Error(err);
+    }
 
-  if (!endpoint) {
-    const err = '@nquandt/azure-ai-sdk: An Azure AI Foundry endpoint is required. ' +
-      'Provide it via `resourceName`/`projectId`, the `endpoint` option, or the AZURE_AI_FOUNDRY_ENDPOINT environment variable.';
-    debugLog('ERROR', err);
-    throw new Error(err);
-  }
+    debugLog?.info('endpoint resolved', { endpoint });
+
+    // When an explicit API key is provided, use it directly as the Bearer token
+    // and skip Entra identity entirely. This is useful for local testing without
+    // requiring `az login`. For production, prefer credential-based auth.
+    const apiKey = settings.apiKey;
+
+    const getHeaders: () => Promise<Record<string, string>> = apiKey
+      ? (() => {
+          debugLog?.info('auth resolved', { endpoint, auth: 'apiKey' });
+          return async () => ({
+            Authorization: `Bearer ${apiKey}`,
+            ...settings.headers,
+          });
+        })()
+      : (() => {
+          // Lazily import @azure/identity only when Entra auth is actually needed.
+          // This avoids loading native Azure SDK modules in environments (e.g. bun)
+          // where they may not be available, when an apiKey is being used instead.
+          let getTokenFn: (() => Promise<string>) | undefined;
+          const defaultScope = endpoint.includes('services.ai.azure.com')
+            ? AI_FOUNDRY_SCOPE
+            : COGNITIVE_SERVICES_SCOPE;
+          const scope = settings.scope ?? defaultScope;
+          const credentialType = settings.credential
+            ? settings.credential.constructor?.name ?? 'custom'
+            : 'DefaultAzureCredential';
+          return async () => {
+            if (!getTokenFn) {
+              debugLog?.info('acquiring Entra token', { scope, credentialType });
+              const { DefaultAzureCredential, getBearerTokenProvider } = await import('@azure/identity');
+              const credential: TokenCredential =
+                settings.credential ?? new DefaultAzureCredential();
+              getTokenFn = getBearerTokenProvider(credential, scope);
+            }
+            try {
+              const token = await getTokenFn();
+              debugLog?.debug('Entra token acquired', { scope });
+              return {
+                Authorization: `Bearer ${token}`,
+                // APIM subscription key — sent alongside the Entra token when set
+                ...(settings.subscriptionKey
+                  ? {
+                      'Ocp-Apim-Subscription-Key': settings.subscriptionKey,
+                      'api-key': settings.subscriptionKey,
+                    }
+                  : {}),
+                // Explicit headers always win — they are merged last
+                ...settings.headers,
+              };
+            } catch (err) {
+              const cause = err instanceof Error ? err.message : String(err);
+              const msg = `[azure-ai-sdk] Failed to acquire Azure token — endpoint=${endpoint} scope=${scope} credentialType=${credentialType} cause=${cause}`;
+              debugLog?.error('Entra token acquisition failed', { endpoint, scope, credentialType, cause });
+              logger?.error(msg);
+              throw new Error(msg, { cause: err instanceof Error ? err : undefined });
+            }
+          };
+        })();
+
+    // Resolve the endpoint style.
+    //
+    // 'auto' (default) — infer from hostname:
+    //   cognitiveservices.azure.com  →  'cognitive-services'
+    //   anything else                →  'foundry'
+    //
+    // Callers may override with an explicit 'endpointStyle' to handle gateways
+    // (e.g. APIM) whose hostname does not match the backend's hostname pattern.
+    //
+    const resolvedStyle = ((): 'cognitive-services' | 'foundry' => {
+      const style = settings.endpointStyle ?? 'auto';
+      if (style === 'cognitive-services') return 'cognitive-services';
+      if (style === 'foundry') return 'foundry';
+      // 'auto' — sniff hostname
+      return endpoint.includes('cognitiveservices.azure.com')
+        ? 'cognitive-services'
+        : 'foundry';
+    })();
+
+    const isCognitiveServices = resolvedStyle === 'cognitive-services';
+    const apiVersion = settings.apiVersion ?? '2024-10-21';
+
+    const buildUrl = (modelId: string, urlSuffix = '/chat/completions'): string => {
+      if (isCognitiveServices) {
+        // Strip a trailing `/openai` that callers may have included in the endpoint.
+        // We always append `/openai/deployments/...` ourselves, so including it in
+        // the endpoint would produce a doubled path segment:
+        //   https://my-org.azure-api.net/openai/openai/deployments/...  ← wrong
+        //   https://my-org.azure-api.net/openai/deployments/...         ← correct
+        const base = endpoint.replace(/\/openai\/?$/i, '');
+        // For non-standard paths (e.g. Anthropic's /anthropic/v1/messages)
+        // don't wrap in the OpenAI deployment path structure
+        if (!DEPLOYMENT_ROUTES.has(urlSuffix)) {
+          return `${base}${urlSuffix}`;
+        }
+        return `${base}/openai/deployments/${encodeURIComponent(modelId)}${urlSuffix}?api-version=${apiVersion}`;
+      }
+      // Foundry inference: OpenAI-compatible routes live under `.../models/<route>`.
+      // Anthropic (Claude) on the same host uses `.../anthropic/v1/messages` — there is no
+      // `/models` segment on that route (see Azure AI Foundry Anthropic integration).
+      if (!DEPLOYMENT_ROUTES.has(urlSuffix) && /\/models\/?$/i.test(endpoint)) {
+        const base = endpoint.replace(/\/models\/?$/i, '');
+        return `${base}${urlSuffix}`;
+      }
+      return `${endpoint}${urlSuffix}`;
+    };
 
-  debugLog('INFO', `endpoint resolved — url=${endpoint}`);
+    return { endpoint, resolvedStyle, isCognitiveServices, buildUrl, getHeaders };
+  };
 
   // ---------------------------------------------------------------------------
-  // API key resolution:
+  // API key resolution for the primary backend:
   //   - options.apiKey wins if provided
   //   - If options.credential is explicitly set, the caller wants Entra auth;
   //     do NOT fall back to AZURE_FOUNDRY_API_KEY env var.
   //   - Otherwise, read AZURE_FOUNDRY_API_KEY from env as a convenience for
   //     testing without az login.
   // ---------------------------------------------------------------------------
-  const apiKey =
-    options.apiKey ??
-    (options.credential
-      ? undefined
-      : (typeof process !== 'undefined' ? process.env.AZURE_FOUNDRY_API_KEY : undefined));
-
-  // When an explicit API key is provided, use it directly as the Bearer token
-  // and skip Entra identity entirely. This is useful for local testing without
-  // requiring `az login`. For production, prefer credential-based auth.
-
-  // null explicitly disables logging; undefined falls back to console.
-  const logger = options.logger === null ? null : (options.logger ?? console);
+  const { endpoint, resolvedStyle, isCognitiveServices, buildUrl, getHeaders } =
+    createBackend({
+      ...options,
+      apiKey:
+        options.apiKey ??
+        (options.credential
+          ? undefined
+          : (typeof process !== 'undefined' ? process.env.AZURE_FOUNDRY_API_KEY : undefined)),
+    });
 
-  const getHeaders: () => Promise<Record<string, string>> = apiKey
-    ? (() => {
-        debugLog('INFO', 'auth=apiKey (Entra bypassed)');
-        return async () => ({
-          Authorization: `Bearer ${apiKey}`,
-          ...options.headers,
-        });
-      })()
-    : (() => {
-        // Lazily import @azure/identity only when Entra auth is actually needed.
-        // This avoids loading native Azure SDK modules in environments (e.g. bun)
-        // where they may not be available, when an apiKey is being used instead.
-        let getTokenFn: (() => Promise<string>) | undefined;
-        const defaultScope = endpoint.includes('services.ai.azure.com')
-          ? AI_FOUNDRY_SCOPE
-          : COGNITIVE_SERVICES_SCOPE;
-        const scope = options.scope ?? defaultScope;
-        const credentialType = options.credential
-          ? options.credential.constructor?.name ?? 'custom'
-          : 'DefaultAzureCredential';
-        return async () => {
-          if (!getTokenFn) {
-            debugLog('INFO', `acquiring Entra token — scope=${scope} credentialType=${credentialType}`);
-            const { DefaultAzureCredential, getBearerTokenProvider } = await import('@azure/identity');
-            const credential: TokenCredential =
-              options.credential ?? new DefaultAzureCredential();
-            getTokenFn = getBearerTokenProvider(credential, scope);
-          }
-          try {
-            const token = await getTokenFn();
-            debugLog('INFO', 'Entra token acquired successfully');
-            return {
-              Authorization: `Bearer ${token}`,
-              // APIM subscription key — sent alongside the Entra token when set
-              ...(options.subscriptionKey
-                ? {
-                    'Ocp-Apim-Subscription-Key': options.subscriptionKey,
-                    'api-key': options.subscriptionKey,
-                  }
-                : {}),
-              // Explicit headers always win — they are merged last
-              ...options.headers,
-            };
-          } catch (err) {
-            const cause = err instanceof Error ? err.message : String(err);
-            const msg = `[azure-ai-sdk] Failed to acquire Azure token — endpoint=${endpoint} scope=${scope} credentialType=${credentialType} cause=${cause}`;
-            debugLog('ERROR', msg);
-            logger?.error(msg);
-            throw new Error(msg, { cause: err instanceof Error ? err : undefined });
-          }
-        };
-      })();
-
-  // Resolve the endpoint style.
-  //
-  // 'auto' (default) — infer from hostname:
-  //   cognitiveservices.azure.com  →  'cognitive-services'
-  //   anything else                →  'foundry'
-  //
-  // Callers may override with an explicit 'endpointStyle' to handle gateways
-  // (e.g. APIM) whose hostname does not match the backend's hostname pattern.
-  //
-  const resolvedStyle = ((): 'cognitive-services' | 'foundry' => {
-    const style = options.endpointStyle ?? 'auto';
-    if (style === 'cognitive-services') return 'cognitive-services';
-    if (style === 'foundry') return 'foundry';
-    // 'auto' — sniff hostname
-    return endpoint.includes('cognitiveservices.azure.com')
-      ? 'cognitive-services'
-      : 'foundry';
-  })();
-
-  const isCognitiveServices = resolvedStyle === 'cognitive-services';
-  const apiVersion = options.apiVersion ?? '2024-10-21';
-
-  const buildUrl = (modelId: string, urlSuffix = '/chat/completions'): string => {
-    if (isCognitiveServices) {
-      // Strip a trailing `/openai` that callers may have included in the endpoint.
-      // We always append `/openai/deployments/...` ourselves, so including it in
-      // the endpoint would produce a doubled path segment:
-      //   https://my-org.azure-api.net/openai/openai/deployments/...  ← wrong
-      //   https://my-org.azure-api.net/openai/deployments/...         ← correct
-      const base = endpoint.replace(/\/openai\/?$/i, '');
-      // For non-standard paths (e.g. Anthropic's /anthropic/v1/messages)
-      // don't wrap in the OpenAI deployment path structure
-      if (urlSuffix !== '/chat/completions') {
-        return `${base}${urlSuffix}`;
-      }
-      return `${base}/openai/deployments/${encodeURIComponent(modelId)}/chat/completions?api-version=${apiVersion}`;
-    }
-    // Foundry inference: OpenAI-compatible chat lives under `.../models/chat/completions`.
-    // Anthropic (Claude) on the same host uses `.../anthropic/v1/messages` — there is no
-    // `/models` segment on that route (see Azure AI Foundry Anthropic integration).
-    if (urlSuffix !== '/chat/completions' && /\/models\/?$/i.test(endpoint)) {
-      const base = endpoint.replace(/\/models\/?$/i, '');
-      return `${base}${urlSuffix}`;
-    }
-    return `${endpoint}${urlSuffix}`;
-  };
+  // Pool backends are resolved once per provider so that token providers
+  // (and their caches) are shared by every model created for the pool. The
+  // AZURE_FOUNDRY_API_KEY fallback is not applied: it belongs to the primary
+  // resource, and a backend's key is never inherited.
+  const pools = new Map(
+    Object.entries(options.deployments ?? {}).map(([modelId, pool]) => [
+      modelId,
+      pool.backends.map((backend) => ({
+        backend: createBackend({
+          apiVersion: options.apiVersion,
+          credential: options.credential,
+          scope: options.scope,
+          subscriptionKey: options.subscriptionKey,
+          ...backend,
+          headers: { ...options.headers, ...backend.headers },
+        }),
+        deployment: backend.deployment ?? modelId,
+        weight: backend.weight ?? 1,
+      })),
+    ]),
+  );
 
   const createChatModel = (
     modelId: AzureFoundryChatModelId,
     settings: AzureFoundryChatSettings = {},
-  ) =>
-    new AzureFoundryChatLanguageModel(modelId, settings, {
+  ): LanguageModelV3 => {
+    const pool = options.deployments?.[modelId];
+    const backends = pools.get(modelId);
+    if (pool && backends) {
+      return new AzureFoundryPooledLanguageModel(
+        modelId,
+        backends.map(({ backend, deployment, weight }) => ({
+          model: new AzureFoundryChatLanguageModel(deployment, settings, {
+            provider: 'azure-foundry.chat',
+            url: backend.buildUrl,
+            modelInBody: !backend.isCognitiveServices,
+            headers: backend.getHeaders,
+            fetch: poolFetch,
+            generateId: options.generateId,
+            rateLimiter,
+            rateLimitId: options.rateLimits?.[deployment] ? deployment : modelId,
+            familyModelId: modelId,
+            circuitBreaker,
+            timeouts,
+            telemetry,
+            endpointStyle: backend.resolvedStyle,
+          }),
+          weight,
+        })),
+        { strategy: pool.strategy, cooldownMs: pool.cooldownMs },
+      );
+    }
+
+    return new AzureFoundryChatLanguageModel(modelId, settings, {
       provider: 'azure-foundry.chat',
       url: buildUrl,
       modelInBody: !isCognitiveServices,
       headers: getHeaders,
-      fetch: options.fetch,
+      fetch,
       generateId: options.generateId,
+      rateLimiter,
+      circuitBreaker,
+      timeouts,
+      telemetry,
+      endpointStyle: resolvedStyle,
+    });
+  };
+
+  const createEmbeddingModel = (
+    modelId: AzureFoundryEmbeddingModelId,
+    settings: AzureFoundryEmbeddingSettings = {},
+  ) =>
+    new AzureFoundryEmbeddingModel(modelId, settings, {
+      provider: 'azure-foundry.embedding',
+      url: buildUrl,
+      modelInBody: !isCognitiveServices,
+      headers: getHeaders,
+      fetch,
+    });
+
+  const createImageModel = (
+    modelId: AzureFoundryImageModelId,
+    settings: AzureFoundryImageSettings = {},
+  ) =>
+    new AzureFoundryImageModel(modelId, settings, {
+      provider: 'azure-foundry.image',
+      url: buildUrl,
+      modelInBody: !isCognitiveServices,
+      headers: getHeaders,
+      fetch,
+    });
+
+  const createTranscriptionModel = (
+    modelId: AzureFoundryTranscriptionModelId,
+    settings: AzureFoundryTranscriptionSettings = {},
+  ) =>
+    new AzureFoundryTranscriptionModel(modelId, settings, {
+      provider: 'azure-foundry.transcription',
+      url: buildUrl,
+      modelInBody: !isCognitiveServices,
+      headers: getHeaders,
+      fetch,
+    });
+
+  const createSpeechModel = (
+    modelId: AzureFoundrySpeechModelId,
+    settings: AzureFoundrySpeechSettings = {},
+  ) =>
+    new AzureFoundrySpeechModel(modelId, settings, {
+      provider: 'azure-foundry.speech',
+      url: buildUrl,
+      modelInBody: !isCognitiveServices,
+      headers: getHeaders,
+      fetch,
     });
 
   const provider = function (
@@ -520,17 +950,15 @@ export function createAzureFoundry(
   provider.chat = createChatModel;
   provider.chatModel = createChatModel;
 
-  const noEmbeddings = (modelId: string) => {
-    throw new NoSuchModelError({ modelId, modelType: 'embeddingModel' });
-  };
-  provider.embeddingModel = noEmbeddings;
-  provider.textEmbeddingModel = noEmbeddings;
+  provider.embeddingModel = createEmbeddingModel;
+  provider.textEmbeddingModel = createEmbeddingModel;
 
-  provider.imageModel = (modelId: string) => {
-    throw new NoSuchModelError({ modelId, modelType: 'imageModel' });
-  };
+  provider.imageModel = createImageModel;
+
+  provider.transcriptionModel = createTranscriptionModel;
+  provider.speechModel = createSpeechModel;
 
-  debugLog('INFO', `provider created — endpoint=${endpoint} style=${resolvedStyle}`);
+  debugLog?.info('provider created', { endpoint, endpointStyle: resolvedStyle });
   return provider as unknown as AzureFoundryProvider;
 }
 
@@ -0,0 +1,215 @@
+import { APICallError } from '@ai-sdk/provider';
+
+// ---------------------------------------------------------------------------
+// Client-side rate limiter
+//
+// Enforces a deployment's tokens-per-minute / requests-per-minute quota before
+// a request is sent, so many concurrent callers queue locally instead of
+// tripping Azure 429s. Each request reserves an estimate (prompt size plus
+// the requested output cap, which is also how Azure counts it against TPM);
+// the reservation is corrected to the reported usage once the response
+// completes. Budgets are tracked over a sliding one-minute window per
+// endpoint URL + deployment, and waiting callers are served first-in,
+// first-out. A call that fails gives back what it did not use: its tokens if
+// the deployment answered, its whole reservation if the request never got a
+// response.
+// ---------------------------------------------------------------------------
+
+export interface AzureFoundryRateLimit {
+  /**
+   * Token budget per minute (prompt + completion), matching the deployment's
+   * TPM quota.
+   */
+  tokensPerMinute?: number;
+
+  /**
+   * Request budget per minute, matching the deployment's RPM quota.
+   */
+  requestsPerMinute?: number;
+}
+
+/**
+ * A reservation held for one call. It is settled once, by whichever of
+ * `reconcile` and `fail` comes first; later calls are ignored.
+ */
+export type RateLimitLease = {
+  /**
+   * The prompt part of the estimate, without the output cap.
+   */
+  readonly promptTokens: number;
+
+  /**
+   * Replaces the reserved estimate with the tokens the call actually used.
+   * The estimate is kept when the usage is unknown.
+   */
+  reconcile(actualTokens: number | undefined): void;
+
+  /**
+   * Settles a failed call. A request the deployment answered keeps its
+   * request slot but no tokens; one that never got a response (network
+   * error, timeout, open circuit, credential failure) is given back entirely.
+   */
+  fail(error: unknown): void;
+};
+
+const WINDOW_MS = 60_000;
+const CHARS_PER_TOKEN = 4;
+// Inline images and files are billed far below their base64 length.
+const BINARY_TOKEN_ESTIMATE = 1_000;
+
+function isBinaryPayload(value: string): boolean {
+  return value.startsWith('data:') || (value.length > 1024 && /^[A-Za-z0-9+/=\r\n]+$/.test(value));
+}
+
+function countChars(value: unknown): number {
+  if (value == null) return 0;
+  if (typeof value === 'string') {
+    return isBinaryPayload(value) ? BINARY_TOKEN_ESTIMATE * CHARS_PER_TOKEN : value.length;
+  }
+  if (Array.isArray(value)) return value.reduce((n: number, item) => n + countChars(item), 0);
+  if (typeof value === 'object') {
+    return Object.entries(value).reduce((n, [key, item]) => n + key.length + countChars(item), 0);
+  }
+  return String(value).length;
+}
+
+function estimateTokens(body: Record<string, unknown>): { prompt: number; output: number } {
+  const { max_tokens, max_completion_tokens, max_output_tokens, ...prompt } = body;
+  const outputCap = [max_tokens, max_completion_tokens, max_output_tokens].find(
+    (value): value is number => typeof value === 'number',
+  );
+  return { prompt: Math.ceil(countChars(prompt) / CHARS_PER_TOKEN), output: outputCap ?? 0 };
+}
+
+/**
+ * Rough token count for a request body: ~4 characters per token for the
+ * prompt, a flat allowance per inline image/file, plus the output cap.
+ */
+export function estimateRequestTokens(body: Record<string, unknown>): number {
+  const { prompt, output } = estimateTokens(body);
+  return prompt + output;
+}
+
+type Reservation = { at: number; tokens: number };
+
+type Waiter = {
+  tokens: number;
+  resolve: (reservation: Reservation) => void;
+  abortSignal?: AbortSignal;
+  onAbort?: () => void;
+};
+
+class RateLimitBucket {
+  private reservations: Reservation[] = [];
+  private readonly queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | undefined;
+
+  constructor(private readonly limit: AzureFoundryRateLimit) {}
+
+  acquire(tokens: number, promptTokens: number, abortSignal: AbortSignal | undefined): Promise<RateLimitLease> {
+    return new Promise<Reservation>((resolve, reject) => {
+      if (abortSignal?.aborted) {
+        reject(abortSignal.reason);
+        return;
+      }
+      const waiter: Waiter = { tokens, resolve, abortSignal };
+      if (abortSignal) {
+        waiter.onAbort = () => {
+          const index = this.queue.indexOf(waiter);
+          if (index !== -1) this.queue.splice(index, 1);
+          reject(abortSignal.reason);
+          // The head may have been blocking smaller requests behind it.
+          this.drain();
+        };
+        abortSignal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    }).then((reservation): RateLimitLease => {
+      let settled = false;
+      return {
+        promptTokens,
+        reconcile: (actualTokens) => {
+          if (settled) return;
+          settled = true;
+          if (actualTokens == null) return;
+          reservation.tokens = actualTokens;
+          this.drain();
+        },
+        fail: (error) => {
+          if (settled) return;
+          settled = true;
+          if (APICallError.isInstance(error) && error.statusCode != null) {
+            reservation.tokens = 0;
+          } else {
+            this.reservations = this.reservations.filter((r) => r !== reservation);
+          }
+          this.drain();
+        },
+      };
+    });
+  }
+
+  private fits(tokens: number): boolean {
+    const { requestsPerMinute, tokensPerMinute } = this.limit;
+    if (requestsPerMinute != null && this.reservations.length >= requestsPerMinute) return false;
+    if (tokensPerMinute != null) {
+      const used = this.reservations.reduce((sum, r) => sum + r.tokens, 0);
+      // A request larger than the whole budget is let through on an idle window
+      // rather than blocking the queue forever.
+      if (used > 0 && used + tokens > tokensPerMinute) return false;
+    }
+    return true;
+  }
+
+  private drain = (): void => {
+    clearTimeout(this.timer);
+    this.timer = undefined;
+
+    const now = Date.now();
+    this.reservations = this.reservations.filter((r) => r.at + WINDOW_MS > now);
+
+    while (this.queue.length > 0 && this.fits(this.queue[0].tokens)) {
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) waiter.abortSignal?.removeEventListener('abort', waiter.onAbort);
+      const reservation = { at: now, tokens: waiter.tokens };
+      this.reservations.push(reservation);
+      waiter.resolve(reservation);
+    }
+
+    // Wake up when the oldest reservation leaves the window.
+    if (this.queue.length > 0 && this.reservations.length > 0) {
+      this.timer = setTimeout(this.drain, this.reservations[0].at + WINDOW_MS - now);
+    }
+  };
+}
+
+export class AzureFoundryRateLimiter {
+  private readonly buckets = new Map<string, RateLimitBucket>();
+
+  constructor(private readonly limits: Record<string, AzureFoundryRateLimit>) {}
+
+  /**
+   * Waits until the budget of the `rateLimits` entry `id` admits the request.
+   * Resolves immediately with no lease for ids without a configured limit;
+   * rejects with the signal's reason if the caller aborts while queued.
+   */
+  async acquire(
+    id: string,
+    url: string,
+    body: Record<string, unknown>,
+    abortSignal?: AbortSignal,
+  ): Promise<RateLimitLease | undefined> {
+    const limit = this.limits[id];
+    if (!limit) return undefined;
+
+    const key = `${url} ${id}`;
+    let bucket = this.buckets.get(key);
+    if (!bucket) {
+      bucket = new RateLimitBucket(limit);
+      this.buckets.set(key, bucket);
+    }
+    const { prompt, output } = estimateTokens(body);
+    return bucket.acquire(prompt + output, prompt, abortSignal);
+  }
+}
@@ -0,0 +1,89 @@
+import { JSONObject, SharedV3ProviderMetadata } from '@ai-sdk/provider';
+
+// ---------------------------------------------------------------------------
+// Response metadata
+//
+// Azure identifies every request on its side (`apim-request-id`,
+// `x-request-id`) and reports the serving region, deployment and remaining
+// quota in response headers. Chat calls surface these, together with the
+// `x-ms-client-request-id` the provider sent, under
+// `providerMetadata['azure-foundry']` — the ids support tickets ask for.
+// ---------------------------------------------------------------------------
+
+export type AzureFoundryResponseMetadata = {
+  /** `x-ms-client-request-id` sent with the request. */
+  clientRequestId: string;
+  /** `apim-request-id` — set by Azure OpenAI and APIM gateways. */
+  apimRequestId?: string;
+  /** `x-request-id` */
+  requestId?: string;
+  /** `x-ms-region` — the region that served the request. */
+  region?: string;
+  /** `x-ratelimit-remaining-requests` */
+  rateLimitRemainingRequests?: number;
+  /** `x-ratelimit-remaining-tokens` */
+  rateLimitRemainingTokens?: number;
+  /** `azureml-model-deployment` — the deployment that served the request. */
+  modelDeployment?: string;
+};
+
+const CLIENT_REQUEST_ID_HEADER = 'x-ms-client-request-id';
+
+/**
+ * Sets the `x-ms-client-request-id` for a call, given its fully merged
+ * headers: the caller's own value when any layer carries one (in any casing;
+ * the last wins, like other headers), otherwise a fresh UUID. The returned
+ * headers hold it under a single lowercase key, so it is sent once.
+ */
+export function withClientRequestId(headers: Record<string, string | undefined> | undefined): {
+  clientRequestId: string;
+  headers: Record<string, string | undefined>;
+} {
+  const rest: Record<string, string | undefined> = {};
+  let callerId: string | undefined;
+  for (const [name, value] of Object.entries(headers ?? {})) {
+    if (name.toLowerCase() === CLIENT_REQUEST_ID_HEADER) callerId = value || callerId;
+    else rest[name] = value;
+  }
+  const clientRequestId = callerId || crypto.randomUUID();
+  return { clientRequestId, headers: { ...rest, [CLIENT_REQUEST_ID_HEADER]: clientRequestId } };
+}
+
+export function parseResponseMetadata(
+  headers: Record<string, string> | undefined,
+  clientRequestId: string,
+): AzureFoundryResponseMetadata {
+  const header = (name: string) => headers?.[name] || undefined;
+  const count = (name: string) => {
+    const value = Number(header(name));
+    return header(name) != null && Number.isFinite(value) ? value : undefined;
+  };
+
+  const metadata: AzureFoundryResponseMetadata = {
+    clientRequestId,
+    apimRequestId: header('apim-request-id'),
+    requestId: header('x-request-id'),
+    region: header('x-ms-region'),
+    rateLimitRemainingRequests: count('x-ratelimit-remaining-requests'),
+    rateLimitRemainingTokens: count('x-ratelimit-remaining-tokens'),
+    modelDeployment: header('azureml-model-deployment'),
+  };
+  // Provider metadata must be JSON, which has no undefined.
+  return Object.fromEntries(
+    Object.entries(metadata).filter(([, value]) => value !== undefined),
+  ) as AzureFoundryResponseMetadata;
+}
+
+/**
+ * Adds the response metadata to the adapter's `'azure-foundry'` metadata
+ * (usage details and the like).
+ */
+export function withResponseMetadata(
+  providerMetadata: SharedV3ProviderMetadata | undefined,
+  metadata: AzureFoundryResponseMetadata,
+): SharedV3ProviderMetadata {
+  return {
+    ...providerMetadata,
+    'azure-foundry': { ...providerMetadata?.['azure-foundry'], ...(metadata as JSONObject) },
+  };
+}
@@ -0,0 +1,186 @@
+import { FetchFunction, delay, isAbortError } from '@ai-sdk/provider-utils';
+
+// ---------------------------------------------------------------------------
+// Retry policy
+//
+// Wraps the provider's fetch so every model call (chat, embeddings, images,
+// audio) retries throttled and failed requests. Retries happen at the HTTP
+// layer before any response body is read: once a 2xx response is handed back
+// to the caller — including an SSE stream that has started emitting — it is
+// never retried.
+// ---------------------------------------------------------------------------
+
+export interface AzureFoundryRetrySettings {
+  /**
+   * Total number of attempts, including the first request. Defaults to 4.
+   */
+  maxAttempts?: number;
+
+  /**
+   * Backoff before the first retry when the response carries no
+   * rate-limit hint. Defaults to 1000 ms.
+   */
+  initialDelayMs?: number;
+
+  /**
+   * Upper bound for the computed exponential backoff. Defaults to 30000 ms.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Factor applied to the backoff after each attempt. Defaults to 2.
+   */
+  backoffMultiplier?: number;
+
+  /**
+   * Apply full jitter to the computed backoff (a random delay between 0 and
+   * the backoff). Server-provided delays are never jittered. Defaults to true.
+   */
+  jitter?: boolean;
+
+  /**
+   * Longest server-requested wait (`retry-after-ms`, `Retry-After`,
+   * `x-ratelimit-reset-*`) the policy will honour. When the server asks for
+   * longer, the throttled response is returned to the caller instead.
+   * Defaults to 60000 ms.
+   */
+  maxRetryAfterMs?: number;
+
+  /**
+   * HTTP status codes that trigger a retry. Defaults to 408, 429 and every
+   * 5xx status.
+   */
+  retryOnStatus?: number[];
+}
+
+const DEFAULT_RETRY_SETTINGS = {
+  maxAttempts: 4,
+  initialDelayMs: 1_000,
+  maxDelayMs: 30_000,
+  backoffMultiplier: 2,
+  jitter: true,
+  maxRetryAfterMs: 60_000,
+};
+
+function isRetryableStatus(status: number, retryOnStatus: number[] | undefined): boolean {
+  if (retryOnStatus) return retryOnStatus.includes(status);
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses an `x-ratelimit-reset-*` value. Azure sends plain seconds; the
+ * OpenAI-compatible surface uses Go-style durations such as `1m30s` or `250ms`.
+ */
+function parseResetDuration(value: string): number | undefined {
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) return Number(trimmed) * 1000;
+
+  const units: Record<string, number> = { h: 3_600_000, m: 60_000, s: 1000, ms: 1 };
+  let total = 0;
+  let matched = '';
+  for (const [, amount, unit] of trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|h|m|s)/g)) {
+    total += Number(amount) * units[unit];
+    matched += `${amount}${unit}`;
+  }
+  return matched.length > 0 && matched === trimmed ? total : undefined;
+}
+
+/**
+ * Reads the server-requested wait from a throttled response, in priority
+ * order: `retry-after-ms`, `Retry-After` (seconds or an HTTP date, as sent by
+ * APIM), then `x-ratelimit-reset-*` for whichever quota is exhausted.
+ * Returns undefined when the response carries no usable hint.
+ */
+export function getRetryAfterMs(headers: Headers, now = Date.now()): number | undefined {
+  const retryAfterMs = headers.get('retry-after-ms');
+  if (retryAfterMs != null) {
+    const ms = Number(retryAfterMs);
+    if (Number.isFinite(ms) && ms >= 0) return ms;
+  }
+
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter != null) {
+    const seconds = Number(retryAfter);
+    if (Number.isFinite(seconds) && seconds >= 0) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - now);
+  }
+
+  for (const quota of ['tokens', 'requests']) {
+    const remaining = headers.get(`x-ratelimit-remaining-${quota}`);
+    const reset = headers.get(`x-ratelimit-reset-${quota}`);
+    if (remaining != null && Number(remaining) <= 0 && reset != null) {
+      const ms = parseResetDuration(reset);
+      if (ms != null) return ms;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Describes a retry that is about to wait. `signal` is the request's abort
+ * signal, which identifies the call the retry belongs to.
+ */
+export type RetryEvent = {
+  /** The attempt that failed, starting at 1. */
+  attempt: number;
+  delayMs: number;
+  status?: number;
+  error?: unknown;
+  signal?: AbortSignal;
+};
+
+/**
+ * Wraps a fetch function with the retry policy. Retries network errors and
+ * retryable statuses; the caller's abort signal cancels both the in-flight
+ * request and any pending backoff. `onRetry` is called before each wait.
+ */
+export function createRetryFetch(
+  settings: AzureFoundryRetrySettings = {},
+  fetch: FetchFunction = globalThis.fetch,
+  onRetry?: (event: RetryEvent) => void,
+): FetchFunction {
+  const policy = { ...DEFAULT_RETRY_SETTINGS, ...settings };
+
+  const backoffFor = (attempt: number): number => {
+    const backoff = Math.min(
+      policy.maxDelayMs,
+      policy.initialDelayMs * policy.backoffMultiplier ** (attempt - 1),
+    );
+    return policy.jitter ? Math.random() * backoff : backoff;
+  };
+
+  return async (input, init) => {
+    const abortSignal = init?.signal ?? undefined;
+    for (let attempt = 1; ; attempt++) {
+      const isLastAttempt = attempt >= policy.maxAttempts;
+
+      let response: Response;
+      try {
+        response = await fetch(input, init);
+      } catch (error) {
+        if (isLastAttempt || isAbortError(error) || abortSignal?.aborted) throw error;
+        const delayMs = backoffFor(attempt);
+        onRetry?.({ attempt, delayMs, error, signal: abortSignal });
+        await delay(delayMs, { abortSignal });
+        continue;
+      }
+
+      if (isLastAttempt || !isRetryableStatus(response.status, policy.retryOnStatus)) {
+        return response;
+      }
+
+      const retryAfterMs = getRetryAfterMs(response.headers);
+      if (retryAfterMs != null && retryAfterMs > policy.maxRetryAfterMs) {
+        return response;
+      }
+
+      // Release the connection before waiting.
+      await response.body?.cancel().catch(() => {});
+      const delayMs = retryAfterMs ?? backoffFor(attempt);
+      onRetry?.({ attempt, delayMs, status: response.status, signal: abortSignal });
+      await delay(delayMs, { abortSignal });
+    }
+  };
+}
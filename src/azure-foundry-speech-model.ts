@@ -0,0 +1,154 @@
+import {
+  SharedV3Warning,
+  SpeechModelV3,
+  SpeechModelV3CallOptions,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  createBinaryResponseHandler,
+  postJsonToApi,
+} from '@ai-sdk/provider-utils';
+import { azureFoundryFailedResponseHandler } from './azure-foundry-error.js';
+import {
+  AzureFoundrySpeechFormat,
+  AzureFoundrySpeechModelId,
+  AzureFoundrySpeechSettings,
+} from './azure-foundry-speech-options.js';
+import { withClientRequestId } from './azure-foundry-response-metadata.js';
+import { VERSION } from './version.js';
+
+const SUPPORTED_FORMATS: readonly AzureFoundrySpeechFormat[] = ['mp3', 'opus', 'aac', 'flac', 'wav', 'pcm'];
+
+// Only the gpt-4o-*-tts family accepts free-form voice `instructions`;
+// the original tts / tts-hd deployments reject the field.
+const INSTRUCTIONS_PATTERN = /^gpt-4o(-mini)?-tts/i;
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+type AzureFoundrySpeechConfig = {
+  provider: string;
+  /**
+   * Builds the full URL for a given deployment/model ID and route suffix.
+   */
+  url: (modelId: string, urlSuffix?: string) => string;
+  /**
+   * When true, the model ID is sent in the request body as `model`.
+   * Used for AI Foundry inference endpoints (services.ai.azure.com/models).
+   */
+  modelInBody: boolean;
+  /**
+   * Returns Bearer token headers for every request.
+   */
+  headers: () => Promise<Record<string, string>>;
+  fetch?: FetchFunction;
+};
+
+// ---------------------------------------------------------------------------
+// Speech model implementation
+// ---------------------------------------------------------------------------
+
+export class AzureFoundrySpeechModel implements SpeechModelV3 {
+  readonly specificationVersion = 'v3' as const;
+
+  readonly modelId: AzureFoundrySpeechModelId;
+
+  private readonly settings: AzureFoundrySpeechSettings;
+  private readonly config: AzureFoundrySpeechConfig;
+
+  constructor(
+    modelId: AzureFoundrySpeechModelId,
+    settings: AzureFoundrySpeechSettings,
+    config: AzureFoundrySpeechConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  // -------------------------------------------------------------------------
+  // doGenerate
+  // -------------------------------------------------------------------------
+
+  async doGenerate(
+    options: SpeechModelV3CallOptions,
+  ): Promise<Awaited<ReturnType<SpeechModelV3['doGenerate']>>> {
+    const warnings: SharedV3Warning[] = [];
+
+    let responseFormat: string = options.outputFormat ?? this.settings.outputFormat ?? 'mp3';
+    if (!SUPPORTED_FORMATS.includes(responseFormat as AzureFoundrySpeechFormat)) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'outputFormat',
+        details: `Unsupported output format: ${responseFormat}. Using mp3 instead.`,
+      });
+      responseFormat = 'mp3';
+    }
+
+    let instructions = options.instructions;
+    if (instructions != null && !INSTRUCTIONS_PATTERN.test(this.modelId)) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'instructions',
+        details: `${this.modelId} does not support instructions; use a gpt-4o-mini-tts deployment.`,
+      });
+      instructions = undefined;
+    }
+
+    if (options.language != null) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'language',
+        details: 'Language is inferred from the input text.',
+      });
+    }
+
+    const body: Record<string, unknown> = {
+      ...(this.config.modelInBody ? { model: this.modelId } : {}),
+      input: options.text,
+      voice: options.voice ?? this.settings.voice ?? 'alloy',
+      response_format: responseFormat,
+      speed: options.speed ?? this.settings.speed,
+      instructions,
+    };
+
+    for (const key of Object.keys(body)) {
+      if (body[key] === undefined) delete body[key];
+    }
+
+    const headers = await this.config.headers();
+    const timestamp = new Date();
+
+    const { value: audio, responseHeaders, rawValue } = await postJsonToApi({
+      url: this.config.url(this.modelId, '/audio/speech'),
+      headers: withClientRequestId(
+        combineHeaders(headers, options.headers, {
+          'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
+        }),
+      ).headers,
+      body,
+      failedResponseHandler: azureFoundryFailedResponseHandler,
+      successfulResponseHandler: createBinaryResponseHandler(),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      audio,
+      warnings,
+      request: { body: JSON.stringify(body) },
+      response: {
+        timestamp,
+        modelId: this.modelId,
+        headers: responseHeaders,
+        body: rawValue,
+      },
+    };
+  }
+}
@@ -0,0 +1,22 @@
+export type AzureFoundrySpeechModelId = string;
+
+export type AzureFoundrySpeechFormat = 'mp3' | 'opus' | 'aac' | 'flac' | 'wav' | 'pcm';
+
+export interface AzureFoundrySpeechSettings {
+  /**
+   * Default voice used when the call does not specify one.
+   * Defaults to `'alloy'`.
+   */
+  voice?: string;
+
+  /**
+   * Default audio format used when the call does not specify one.
+   * Defaults to `'mp3'`.
+   */
+  outputFormat?: AzureFoundrySpeechFormat;
+
+  /**
+   * Default playback speed between 0.25 and 4.0.
+   */
+  speed?: number;
+}
@@ -0,0 +1,346 @@
+import { APICallError, LanguageModelV3FinishReason } from '@ai-sdk/provider';
+import type { ParsedUsage } from './adapters/index.js';
+import type { RetryEvent } from './azure-foundry-retry.js';
+import { VERSION } from './version.js';
+
+// ---------------------------------------------------------------------------
+// OpenTelemetry instrumentation
+//
+// `@opentelemetry/api` is an optional peer dependency: it is only imported,
+// lazily, once a provider with `telemetry` enabled makes its first call.
+// Names follow the OpenTelemetry GenAI semantic conventions; Azure-specific
+// details live under `azure_foundry.*`.
+//
+//   span        `chat {model}` (CLIENT) — one per doGenerate / doStream
+//   histograms  gen_ai.client.operation.duration  (s)
+//               gen_ai.client.token.usage         ({token}, by gen_ai.token.type)
+//
+// The OpenTelemetry types below are structural subsets of the ones in
+// `@opentelemetry/api`, declared here so that the published typings do not
+// depend on the optional package. Its `Tracer` and `Meter` satisfy them.
+// ---------------------------------------------------------------------------
+
+type AttributeValue =
+  | string
+  | number
+  | boolean
+  | Array<null | undefined | string>
+  | Array<null | undefined | number>
+  | Array<null | undefined | boolean>;
+type Attributes = Record<string, AttributeValue | undefined>;
+
+/** The parts of an OpenTelemetry `Span` used by the instrumentation. */
+export interface AzureFoundrySpan {
+  setAttribute(key: string, value: AttributeValue): unknown;
+  addEvent(name: string, attributes?: Attributes): unknown;
+  recordException(exception: Error): void;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): void;
+}
+
+/** The parts of an OpenTelemetry `Tracer` used by the instrumentation. */
+export interface AzureFoundryTracer {
+  startSpan(name: string, options?: { kind?: number; attributes?: Attributes }): AzureFoundrySpan;
+}
+
+type Histogram = {
+  record(value: number, attributes?: Attributes): void;
+};
+
+/** The parts of an OpenTelemetry `Meter` used by the instrumentation. */
+export interface AzureFoundryMeter {
+  createHistogram(
+    name: string,
+    options?: { description?: string; unit?: string; advice?: { explicitBucketBoundaries?: number[] } },
+  ): Histogram;
+}
+
+export interface AzureFoundryTelemetrySettings {
+  /**
+   * Tracer used for spans. Defaults to the global tracer provider's tracer
+   * for `@nquandt/azure-ai-sdk`.
+   */
+  tracer?: AzureFoundryTracer;
+
+  /**
+   * Meter used for histograms. Defaults to the global meter provider's meter
+   * for `@nquandt/azure-ai-sdk`.
+   */
+  meter?: AzureFoundryMeter;
+
+  /**
+   * Inject the active trace context (W3C `traceparent`) into request headers
+   * so that APIM and Application Insights join the caller's trace.
+   * Defaults to true.
+   */
+  propagateContext?: boolean;
+}
+
+/** The parts of the `@opentelemetry/api` module used by the instrumentation. */
+type OpenTelemetryApi = {
+  trace: {
+    getTracer(name: string, version?: string): AzureFoundryTracer;
+    setSpan(context: Context, span: AzureFoundrySpan): Context;
+  };
+  metrics: { getMeter(name: string, version?: string): AzureFoundryMeter };
+  context: {
+    active(): Context;
+    with<T>(context: Context, fn: () => T): T;
+  };
+  propagation: { inject(context: Context, carrier: Record<string, string>): void };
+  SpanKind: { CLIENT: number };
+  SpanStatusCode: { ERROR: number };
+};
+
+// Opaque to this package; only handed back to the API.
+type Context = object;
+
+type Instruments = {
+  duration: Histogram;
+  tokens: Histogram;
+};
+
+export type ChatCallInfo = {
+  modelId: string;
+  url: string;
+  clientRequestId: string;
+  adapterType: string;
+  endpointStyle?: 'cognitive-services' | 'foundry';
+  streaming: boolean;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+};
+
+const INSTRUMENTATION_NAME = '@nquandt/azure-ai-sdk';
+
+// Bucket boundaries recommended by the GenAI semantic conventions.
+const DURATION_BUCKETS = [
+  0.01, 0.02, 0.04, 0.08, 0.16, 0.32, 0.64, 1.28, 2.56, 5.12, 10.24, 20.48, 40.96, 81.92,
+];
+const TOKEN_BUCKETS = [
+  1, 4, 16, 64, 256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304, 16777216, 67108864,
+];
+
+// Response headers that identify a request on the Azure side.
+const REQUEST_ID_HEADERS: Record<string, string> = {
+  'x-request-id': 'azure_foundry.request_id',
+  'apim-request-id': 'azure_foundry.apim_request_id',
+};
+
+function errorType(error: unknown): string {
+  if (APICallError.isInstance(error) && error.statusCode != null) return String(error.statusCode);
+  return error instanceof Error ? error.name : '_OTHER';
+}
+
+/**
+ * Telemetry for one chat call. Every method is a no-op once the span has
+ * ended, so stream teardown paths can call `end` / `fail` freely.
+ */
+export class ChatCallTelemetry {
+  /** Trace-context headers to send with the request. */
+  readonly headers: Record<string, string> = {};
+
+  private readonly context: Context;
+  private readonly startedAt = Date.now();
+  private retries = 0;
+  private receivedFirstToken = false;
+  private ended = false;
+
+  constructor(
+    private readonly api: OpenTelemetryApi,
+    private readonly span: AzureFoundrySpan,
+    private readonly instruments: Instruments,
+    private readonly metricAttributes: Attributes,
+    propagateContext: boolean,
+  ) {
+    this.context = api.trace.setSpan(api.context.active(), span);
+    if (propagateContext) api.propagation.inject(this.context, this.headers);
+  }
+
+  /**
+   * Runs `fn` with the call's span active, so that spans created further
+   * down (e.g. by fetch instrumentation) become its children. Failures end
+   * the span.
+   */
+  run<T>(fn: () => PromiseLike<T>): Promise<T> {
+    return this.api.context.with(this.context, async () => {
+      try {
+        return await fn();
+      } catch (error) {
+        this.fail(error);
+        throw error;
+      }
+    });
+  }
+
+  recordRetry(event: RetryEvent): void {
+    if (this.ended) return;
+    this.retries++;
+    this.span.setAttribute('azure_foundry.retry_count', this.retries);
+    this.span.addEvent('azure_foundry.retry', {
+      'azure_foundry.retry.attempt': event.attempt,
+      'azure_foundry.retry.delay_ms': Math.round(event.delayMs),
+      ...(event.status != null ? { 'http.response.status_code': event.status } : {}),
+      ...(event.error != null ? { 'error.type': errorType(event.error) } : {}),
+    });
+  }
+
+  recordResponse(headers: Record<string, string> | undefined): void {
+    if (this.ended || !headers) return;
+    for (const [header, attribute] of Object.entries(REQUEST_ID_HEADERS)) {
+      if (headers[header]) this.span.setAttribute(attribute, headers[header]);
+    }
+  }
+
+  /** Marks the first generated token of a stream. */
+  recordFirstToken(): void {
+    if (this.ended || this.receivedFirstToken) return;
+    this.receivedFirstToken = true;
+    this.span.setAttribute('azure_foundry.time_to_first_token_ms', Date.now() - this.startedAt);
+  }
+
+  end(usage: ParsedUsage, finishReason: LanguageModelV3FinishReason): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.span.setAttribute('gen_ai.response.finish_reasons', [finishReason.raw ?? finishReason.unified]);
+    for (const [type, count] of [['input', usage.inputTokens], ['output', usage.outputTokens]] as const) {
+      if (count == null) continue;
+      this.span.setAttribute(`gen_ai.usage.${type}_tokens`, count);
+      this.instruments.tokens.record(count, { ...this.metricAttributes, 'gen_ai.token.type': type });
+    }
+
+    this.instruments.duration.record((Date.now() - this.startedAt) / 1000, this.metricAttributes);
+    this.span.end();
+  }
+
+  /**
+   * Ends the span of a stream the consumer cancelled. Not an error: the
+   * span keeps an unset status and the duration is tagged as cancelled.
+   */
+  cancel(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.span.setAttribute('azure_foundry.cancelled', true);
+    this.instruments.duration.record((Date.now() - this.startedAt) / 1000, {
+      ...this.metricAttributes,
+      'azure_foundry.cancelled': true,
+    });
+    this.span.end();
+  }
+
+  fail(error: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    const type = errorType(error);
+    this.span.setAttribute('error.type', type);
+    if (error instanceof Error) this.span.recordException(error);
+    this.span.setStatus({
+      code: this.api.SpanStatusCode.ERROR,
+      message: error instanceof Error ? error.message : String(error),
+    });
+
+    this.instruments.duration.record((Date.now() - this.startedAt) / 1000, {
+      ...this.metricAttributes,
+      'error.type': type,
+    });
+    this.span.end();
+  }
+}
+
+/**
+ * Per-provider instrumentation. Calls are registered by their request abort
+ * signal so that retries made by the provider's fetch can be attributed to
+ * the span that is waiting on them.
+ */
+export class AzureFoundryTelemetry {
+  private api?: Promise<OpenTelemetryApi | undefined>;
+  private instruments?: Instruments;
+  private readonly calls = new WeakMap<AbortSignal, ChatCallTelemetry>();
+
+  constructor(
+    private readonly settings: AzureFoundryTelemetrySettings = {},
+    private readonly logger?: Pick<Console, 'warn'> | null,
+  ) {}
+
+  /**
+   * Starts the span for a chat call. Resolves to undefined when
+   * `@opentelemetry/api` is not installed.
+   */
+  async startChatCall(info: ChatCallInfo, signal: AbortSignal): Promise<ChatCallTelemetry | undefined> {
+    const api = await this.load();
+    if (!api) return undefined;
+
+    const { hostname, port, protocol } = new URL(info.url);
+    const metricAttributes: Attributes = {
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': info.endpointStyle === 'cognitive-services' ? 'az.ai.openai' : 'az.ai.inference',
+      'gen_ai.request.model': info.modelId,
+      'server.address': hostname,
+      'server.port': port ? Number(port) : protocol === 'http:' ? 80 : 443,
+    };
+
+    const tracer = this.settings.tracer ?? api.trace.getTracer(INSTRUMENTATION_NAME, VERSION);
+    const span = tracer.startSpan(`chat ${info.modelId}`, {
+      kind: api.SpanKind.CLIENT,
+      attributes: {
+        ...metricAttributes,
+        'url.full': info.url,
+        'azure_foundry.client_request_id': info.clientRequestId,
+        'azure_foundry.adapter_type': info.adapterType,
+        ...(info.endpointStyle ? { 'azure_foundry.endpoint_style': info.endpointStyle } : {}),
+        'azure_foundry.streaming': info.streaming,
+        ...(info.maxTokens != null ? { 'gen_ai.request.max_tokens': info.maxTokens } : {}),
+        ...(info.temperature != null ? { 'gen_ai.request.temperature': info.temperature } : {}),
+        ...(info.topP != null ? { 'gen_ai.request.top_p': info.topP } : {}),
+      },
+    });
+
+    const call = new ChatCallTelemetry(
+      api,
+      span,
+      this.instrumentsFor(api),
+      metricAttributes,
+      this.settings.propagateContext ?? true,
+    );
+    this.calls.set(signal, call);
+    return call;
+  }
+
+  /** Hook for the retry policy; attributes the retry to its call's span. */
+  readonly recordRetry = (event: RetryEvent): void => {
+    if (event.signal) this.calls.get(event.signal)?.recordRetry(event);
+  };
+
+  private load(): Promise<OpenTelemetryApi | undefined> {
+    this.api ??= import('@opentelemetry/api').catch(() => {
+      this.logger?.warn(
+        '@nquandt/azure-ai-sdk: `telemetry` is enabled but @opentelemetry/api is not installed — spans and metrics are disabled.',
+      );
+      return undefined;
+    });
+    return this.api;
+  }
+
+  private instrumentsFor(api: OpenTelemetryApi): Instruments {
+    if (!this.instruments) {
+      const meter = this.settings.meter ?? api.metrics.getMeter(INSTRUMENTATION_NAME, VERSION);
+      this.instruments = {
+        duration: meter.createHistogram('gen_ai.client.operation.duration', {
+          description: 'GenAI operation duration',
+          unit: 's',
+          advice: { explicitBucketBoundaries: DURATION_BUCKETS },
+        }),
+        tokens: meter.createHistogram('gen_ai.client.token.usage', {
+          description: 'Measures number of input and output tokens used',
+          unit: '{token}',
+          advice: { explicitBucketBoundaries: TOKEN_BUCKETS },
+        }),
+      };
+    }
+    return this.instruments;
+  }
+}
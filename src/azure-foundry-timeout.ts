@@ -0,0 +1,121 @@
+import { AISDKError } from '@ai-sdk/provider';
+
+// ---------------------------------------------------------------------------
+// Timeouts
+//
+// Three independent deadlines, each optional:
+//
+//   request     — doGenerate: the whole call; doStream: until response headers
+//   first-chunk — doStream: from sending the request until the first chunk
+//   stream-idle — doStream: the longest gap between two chunks
+//
+// A deadline aborts the underlying fetch through an AbortController that also
+// follows the caller's `abortSignal`, and surfaces as AzureFoundryTimeoutError.
+// ---------------------------------------------------------------------------
+
+export type AzureFoundryTimeoutKind = 'request' | 'first-chunk' | 'stream-idle';
+
+export type AzureFoundryTimeouts = {
+  requestTimeoutMs?: number;
+  firstChunkTimeoutMs?: number;
+  streamIdleTimeoutMs?: number;
+};
+
+const name = 'AzureFoundryTimeoutError';
+const marker = `vercel.ai.error.${name}`;
+const symbol = Symbol.for(marker);
+
+const DESCRIPTIONS: Record<AzureFoundryTimeoutKind, string> = {
+  'request': 'request',
+  'first-chunk': 'waiting for the first stream chunk',
+  'stream-idle': 'stream idle',
+};
+
+/**
+ * Raised when one of the configured timeouts elapses.
+ */
+export class AzureFoundryTimeoutError extends AISDKError {
+  private readonly [symbol] = true;
+
+  readonly kind: AzureFoundryTimeoutKind;
+  readonly timeoutMs: number;
+  readonly url: string;
+
+  constructor({ kind, timeoutMs, url }: { kind: AzureFoundryTimeoutKind; timeoutMs: number; url: string }) {
+    super({
+      name,
+      message: `@nquandt/azure-ai-sdk: ${DESCRIPTIONS[kind]} timed out after ${timeoutMs} ms (${url}).`,
+    });
+    this.kind = kind;
+    this.timeoutMs = timeoutMs;
+    this.url = url;
+  }
+
+  static isInstance(error: unknown): error is AzureFoundryTimeoutError {
+    return AISDKError.hasMarker(error, marker);
+  }
+}
+
+/**
+ * An AbortController that follows the caller's signal and can be aborted by
+ * named deadline timers. `onTimeout` runs just before the fetch is aborted,
+ * e.g. to push an error part into a stream that is already open.
+ */
+export class TimeoutController {
+  private readonly controller = new AbortController();
+  private readonly timers = new Map<AzureFoundryTimeoutKind, ReturnType<typeof setTimeout>>();
+  private readonly onCallerAbort: () => void;
+
+  onTimeout?: (error: AzureFoundryTimeoutError) => void;
+
+  constructor(
+    private readonly url: string,
+    private readonly callerSignal?: AbortSignal,
+  ) {
+    this.onCallerAbort = () => {
+      this.dispose();
+      this.controller.abort(callerSignal?.reason);
+    };
+    if (callerSignal?.aborted) this.onCallerAbort();
+    else callerSignal?.addEventListener('abort', this.onCallerAbort, { once: true });
+  }
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /** Starts (or restarts) a deadline. No-op when `timeoutMs` is unset. */
+  start(kind: AzureFoundryTimeoutKind, timeoutMs: number | undefined): void {
+    this.stop(kind);
+    if (timeoutMs == null || this.signal.aborted) return;
+    this.timers.set(
+      kind,
+      setTimeout(() => {
+        const error = new AzureFoundryTimeoutError({ kind, timeoutMs, url: this.url });
+        this.dispose();
+        this.onTimeout?.(error);
+        this.controller.abort(error);
+      }, timeoutMs),
+    );
+  }
+
+  stop(kind: AzureFoundryTimeoutKind): void {
+    clearTimeout(this.timers.get(kind));
+    this.timers.delete(kind);
+  }
+
+  /** Clears every deadline and detaches from the caller's signal. */
+  dispose(): void {
+    for (const kind of [...this.timers.keys()]) this.stop(kind);
+    this.callerSignal?.removeEventListener('abort', this.onCallerAbort);
+  }
+
+  /**
+   * Maps an error from an aborted fetch back to the timeout that caused it.
+   * fetch implementations differ in whether they reject with the abort reason.
+   */
+  errorFor(error: unknown): unknown {
+    const reason = this.signal.reason;
+    return this.signal.aborted && AzureFoundryTimeoutError.isInstance(reason) ? reason : error;
+  }
+}
@@ -0,0 +1,220 @@
+import {
+  SharedV3Warning,
+  TranscriptionModelV3,
+  TranscriptionModelV3CallOptions,
+} from '@ai-sdk/provider';
+import {
+  FetchFunction,
+  combineHeaders,
+  convertBase64ToUint8Array,
+  createJsonResponseHandler,
+  mediaTypeToExtension,
+  postFormDataToApi,
+} from '@ai-sdk/provider-utils';
+import { z } from 'zod';
+import { azureFoundryFailedResponseHandler } from './azure-foundry-error.js';
+import {
+  AzureFoundryTranscriptionModelId,
+  AzureFoundryTranscriptionSettings,
+} from './azure-foundry-transcription-options.js';
+import { withClientRequestId } from './azure-foundry-response-metadata.js';
+import { VERSION } from './version.js';
+
+// ---------------------------------------------------------------------------
+// Model ID heuristics
+//
+// gpt-4o-transcribe / gpt-4o-mini-transcribe only accept `json` or `text`;
+// Whisper additionally supports `verbose_json` with segments and metadata.
+// ---------------------------------------------------------------------------
+
+const GPT_4O_TRANSCRIBE_PATTERN = /^gpt-4o(-mini)?-transcribe/i;
+
+// Whisper's verbose_json reports the detected language as a lowercase English
+// name ("english"); the AI SDK expects an ISO-639-1 code.
+const LANGUAGE_CODES: Record<string, string> = {
+  afrikaans: 'af', arabic: 'ar', armenian: 'hy', azerbaijani: 'az',
+  belarusian: 'be', bosnian: 'bs', bulgarian: 'bg', catalan: 'ca',
+  chinese: 'zh', croatian: 'hr', czech: 'cs', danish: 'da', dutch: 'nl',
+  english: 'en', estonian: 'et', finnish: 'fi', french: 'fr', galician: 'gl',
+  german: 'de', greek: 'el', hebrew: 'he', hindi: 'hi', hungarian: 'hu',
+  icelandic: 'is', indonesian: 'id', italian: 'it', japanese: 'ja',
+  kannada: 'kn', kazakh: 'kk', korean: 'ko', latvian: 'lv', lithuanian: 'lt',
+  macedonian: 'mk', malay: 'ms', marathi: 'mr', maori: 'mi', nepali: 'ne',
+  norwegian: 'no', persian: 'fa', polish: 'pl', portuguese: 'pt',
+  romanian: 'ro', russian: 'ru', serbian: 'sr', slovak: 'sk', slovenian: 'sl',
+  spanish: 'es', swahili: 'sw', swedish: 'sv', tagalog: 'tl', tamil: 'ta',
+  thai: 'th', turkish: 'tr', ukrainian: 'uk', urdu: 'ur', vietnamese: 'vi',
+  welsh: 'cy',
+};
+
+function toLanguageCode(language: string | null | undefined): string | undefined {
+  if (!language) return undefined;
+  const normalised = language.toLowerCase();
+  if (/^[a-z]{2}$/.test(normalised)) return normalised;
+  return LANGUAGE_CODES[normalised];
+}
+
+// ---------------------------------------------------------------------------
+// Zod schemas
+// ---------------------------------------------------------------------------
+
+const transcriptionResponseSchema = z.object({
+  text: z.string(),
+  language: z.string().nullish(),
+  duration: z.number().nullish(),
+  segments: z
+    .array(
+      z.object({
+        id: z.number().nullish(),
+        text: z.string(),
+        start: z.number(),
+        end: z.number(),
+      }),
+    )
+    .nullish(),
+  words: z
+    .array(
+      z.object({
+        word: z.string(),
+        start: z.number(),
+        end: z.number(),
+      }),
+    )
+    .nullish(),
+});
+
+// ---------------------------------------------------------------------------
+// Config
+// ---------------------------------------------------------------------------
+
+type AzureFoundryTranscriptionConfig = {
+  provider: string;
+  /**
+   * Builds the full URL for a given deployment/model ID and route suffix.
+   */
+  url: (modelId: string, urlSuffix?: string) => string;
+  /**
+   * When true, the model ID is sent as the `model` form field.
+   * Used for AI Foundry inference endpoints (services.ai.azure.com/models).
+   */
+  modelInBody: boolean;
+  /**
+   * Returns Bearer token headers for every request.
+   */
+  headers: () => Promise<Record<string, string>>;
+  fetch?: FetchFunction;
+};
+
+// ---------------------------------------------------------------------------
+// Transcription model implementation
+// ---------------------------------------------------------------------------
+
+export class AzureFoundryTranscriptionModel implements TranscriptionModelV3 {
+  readonly specificationVersion = 'v3' as const;
+
+  readonly modelId: AzureFoundryTranscriptionModelId;
+
+  private readonly settings: AzureFoundryTranscriptionSettings;
+  private readonly config: AzureFoundryTranscriptionConfig;
+
+  constructor(
+    modelId: AzureFoundryTranscriptionModelId,
+    settings: AzureFoundryTranscriptionSettings,
+    config: AzureFoundryTranscriptionConfig,
+  ) {
+    this.modelId = modelId;
+    this.settings = settings;
+    this.config = config;
+  }
+
+  get provider(): string {
+    return this.config.provider;
+  }
+
+  // -------------------------------------------------------------------------
+  // doGenerate
+  // -------------------------------------------------------------------------
+
+  async doGenerate(
+    options: TranscriptionModelV3CallOptions,
+  ): Promise<Awaited<ReturnType<TranscriptionModelV3['doGenerate']>>> {
+    const warnings: SharedV3Warning[] = [];
+    const supportsVerbose = !GPT_4O_TRANSCRIBE_PATTERN.test(this.modelId);
+
+    let responseFormat = this.settings.responseFormat ?? (supportsVerbose ? 'verbose_json' : 'json');
+    if (responseFormat === 'verbose_json' && !supportsVerbose) {
+      warnings.push({
+        type: 'unsupported',
+        feature: 'responseFormat',
+        details: `${this.modelId} does not support verbose_json; segments and duration will be empty.`,
+      });
+      responseFormat = 'json';
+    }
+
+    const audio =
+      typeof options.audio === 'string'
+        ? convertBase64ToUint8Array(options.audio)
+        : options.audio;
+
+    const formData = new FormData();
+    formData.append(
+      'file',
+      new Blob([audio], { type: options.mediaType }),
+      `audio.${mediaTypeToExtension(options.mediaType)}`,
+    );
+    if (this.config.modelInBody) formData.append('model', this.modelId);
+    formData.append('response_format', responseFormat);
+    if (this.settings.language != null) formData.append('language', this.settings.language);
+    if (this.settings.prompt != null) formData.append('prompt', this.settings.prompt);
+    if (this.settings.temperature != null) {
+      formData.append('temperature', String(this.settings.temperature));
+    }
+    if (responseFormat === 'verbose_json') {
+      for (const granularity of this.settings.timestampGranularities ?? ['segment']) {
+        formData.append('timestamp_granularities[]', granularity);
+      }
+    }
+
+    const headers = await this.config.headers();
+    const timestamp = new Date();
+
+    const { value: response, responseHeaders, rawValue } = await postFormDataToApi({
+      url: this.config.url(this.modelId, '/audio/transcriptions'),
+      headers: withClientRequestId(
+        combineHeaders(headers, options.headers, {
+          'x-ms-useragent': `@nquandt/azure-ai-sdk/${VERSION}`,
+        }),
+      ).headers,
+      formData,
+      failedResponseHandler: azureFoundryFailedResponseHandler,
+      successfulResponseHandler: createJsonResponseHandler(transcriptionResponseSchema),
+      abortSignal: options.abortSignal,
+      fetch: this.config.fetch,
+    });
+
+    return {
+      text: response.text,
+      segments:
+        response.segments?.map((segment) => ({
+          text: segment.text,
+          startSecond: segment.start,
+          endSecond: segment.end,
+        })) ??
+        response.words?.map((word) => ({
+          text: word.word,
+          startSecond: word.start,
+          endSecond: word.end,
+        })) ??
+        [],
+      language: toLanguageCode(response.language) ?? this.settings.language,
+      durationInSeconds: response.duration ?? undefined,
+      warnings,
+      response: {
+        timestamp,
+        modelId: this.modelId,
+        headers: responseHeaders,
+        body: rawValue,
+      },
+    };
+  }
+}
@@ -0,0 +1,36 @@
+export type AzureFoundryTranscriptionModelId = string;
+
+export interface AzureFoundryTranscriptionSettings {
+  /**
+   * Language of the input audio as an ISO-639-1 code (e.g. `'en'`).
+   * Supplying it improves accuracy and latency; omit to auto-detect.
+   */
+  language?: string;
+
+  /**
+   * Optional text to guide the model's style or continue a previous segment.
+   * Should match the audio language.
+   */
+  prompt?: string;
+
+  /**
+   * Sampling temperature between 0 and 1.
+   */
+  temperature?: number;
+
+  /**
+   * Response format requested from the deployment.
+   *
+   * Defaults to `'verbose_json'` for Whisper deployments — the only format
+   * that returns segments, language and duration — and `'json'` for
+   * `gpt-4o-transcribe` / `gpt-4o-mini-transcribe`, which do not support
+   * `verbose_json`.
+   */
+  responseFormat?: 'json' | 'verbose_json';
+
+  /**
+   * Timestamp granularities to populate. Only honoured with `verbose_json`.
+   * Defaults to `['segment']`.
+   */
+  timestampGranularities?: Array<'word' | 'segment'>;
+}
@@ -18,7 +18,71 @@
 //   const model   = foundry.languageModel('DeepSeek-R1'); // same, via ProviderV2
 //
 export { createAzureFoundry } from './azure-foundry-provider.js';
-export type { AzureFoundryProvider, AzureFoundryProviderSettings } from './azure-foundry-provider.js';
+export type {
+  AzureFoundryBackendSettings,
+  AzureFoundryDeploymentPoolSettings,
+  AzureFoundryProvider,
+  AzureFoundryProviderSettings,
+} from './azure-foundry-provider.js';
+
+// -- Retry policy ------------------------------------------------------------
+// Enabled via `createAzureFoundry({ retry: true })` or a settings object.
+//
+export type { AzureFoundryRetrySettings } from './azure-foundry-retry.js';
+
+// -- Deployment pools --------------------------------------------------------
+// Enabled per model ID via `createAzureFoundry({ deployments: { ... } })`.
+//
+export type { AzureFoundryPoolStrategy } from './azure-foundry-deployment-pool.js';
+
+// -- Rate limits -------------------------------------------------------------
+// Client-side TPM/RPM budgets via `createAzureFoundry({ rateLimits: { ... } })`.
+//
+export type { AzureFoundryRateLimit } from './azure-foundry-rate-limiter.js';
+
+// -- Circuit breaker ---------------------------------------------------------
+// Enabled via `createAzureFoundry({ circuitBreaker: true })` or a settings
+// object. `CircuitOpenError.isInstance(error)` identifies fail-fast rejections.
+//
+export { CircuitOpenError } from './azure-foundry-circuit-breaker.js';
+export type {
+  AzureFoundryCircuitBreakerSettings,
+  CircuitState,
+  CircuitStateChangeEvent,
+} from './azure-foundry-circuit-breaker.js';
+
+// -- Timeouts ----------------------------------------------------------------
+// `requestTimeoutMs`, `firstChunkTimeoutMs` and `streamIdleTimeoutMs` on the
+// provider or a model raise this error.
+//
+export { AzureFoundryTimeoutError } from './azure-foundry-timeout.js';
+export type { AzureFoundryTimeoutKind } from './azure-foundry-timeout.js';
+
+// -- Telemetry ---------------------------------------------------------------
+// Settings for the `telemetry` provider option (OpenTelemetry spans and
+// GenAI metrics). The tracer and meter types are the subsets of
+// `@opentelemetry/api`'s that the provider uses.
+//
+export type {
+  AzureFoundryMeter,
+  AzureFoundrySpan,
+  AzureFoundryTelemetrySettings,
+  AzureFoundryTracer,
+} from './azure-foundry-telemetry.js';
+
+// -- Response metadata -------------------------------------------------------
+// Shape of `providerMetadata['azure-foundry']` request ids and quota headers
+// on chat results.
+//
+export type { AzureFoundryResponseMetadata } from './azure-foundry-response-metadata.js';
+
+// -- Debug log ---------------------------------------------------------------
+// Settings for the `debugLog` provider option (structured JSONL file log).
+//
+export type {
+  AzureFoundryDebugLogSettings,
+  AzureFoundryLogLevel,
+} from './azure-foundry-debug-log.js';
 
 // -- Model settings ----------------------------------------------------------
 // Pass these as the second argument to the provider call:
@@ -26,12 +90,54 @@ export type { AzureFoundryProvider, AzureFoundryProviderSettings } from './azure
 //
 export type { AzureFoundryChatModelId, AzureFoundryChatSettings } from './azure-foundry-chat-options.js';
 
+// -- Provider options --------------------------------------------------------
+// Per-call vendor parameters, passed under the 'azure-foundry' key:
+//   generateText({ model, providerOptions: { 'azure-foundry': { reasoningEffort: 'low' } } })
+// Which type applies depends on the adapter resolved for the model.
+//
+export type {
+  AnthropicProviderOptions,
+  OpenAIProviderOptions,
+  OpenAIResponsesProviderOptions,
+} from './adapters/provider-options.js';
+
 // -- Language model class ----------------------------------------------------
 // Exposed for advanced use — e.g. constructing a model directly without the
 // provider factory, or wrapping it in another abstraction.
 //
 export { AzureFoundryChatLanguageModel } from './azure-foundry-chat-language-model.js';
 
+// -- Embedding model ---------------------------------------------------------
+// Created via `foundry.embeddingModel('text-embedding-3-large', { dimensions: 1024 })`.
+//
+export { AzureFoundryEmbeddingModel } from './azure-foundry-embedding-model.js';
+export type { AzureFoundryEmbeddingModelId, AzureFoundryEmbeddingSettings } from './azure-foundry-embedding-options.js';
+
+// -- Image model -------------------------------------------------------------
+// Created via `foundry.imageModel('dall-e-3', { quality: 'hd' })`.
+//
+export { AzureFoundryImageModel } from './azure-foundry-image-model.js';
+export type { AzureFoundryImageModelId, AzureFoundryImageSettings } from './azure-foundry-image-options.js';
+
+// -- Transcription model -----------------------------------------------------
+// Created via `foundry.transcriptionModel('whisper', { language: 'en' })`.
+//
+export { AzureFoundryTranscriptionModel } from './azure-foundry-transcription-model.js';
+export type {
+  AzureFoundryTranscriptionModelId,
+  AzureFoundryTranscriptionSettings,
+} from './azure-foundry-transcription-options.js';
+
+// -- Speech model ------------------------------------------------------------
+// Created via `foundry.speechModel('gpt-4o-mini-tts', { voice: 'nova' })`.
+//
+export { AzureFoundrySpeechModel } from './azure-foundry-speech-model.js';
+export type {
+  AzureFoundrySpeechFormat,
+  AzureFoundrySpeechModelId,
+  AzureFoundrySpeechSettings,
+} from './azure-foundry-speech-options.js';
+
 // -- Azure Identity credentials ----------------------------------------------
 // Import credential classes directly from '@azure/identity' when needed:
 //
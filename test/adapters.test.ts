@@ -5,8 +5,14 @@
 
 import { describe, it, expect } from 'vitest';
 import { createAzureFoundry } from '../src/index.js';
-import { resolveAdapter, OpenAIAdapter, OpenAILegacyAdapter, AnthropicAdapter } from '../src/adapters/index.js';
-import { fakeCredential, fakeFetch, chatResponse } from './helpers.js';
+import {
+  resolveAdapter,
+  OpenAIAdapter,
+  OpenAILegacyAdapter,
+  OpenAIResponsesAdapter,
+  AnthropicAdapter,
+} from '../src/adapters/index.js';
+import { fakeCredential, fakeFetch, fakeStreamFetch, chatResponse } from './helpers.js';
 
 const ENDPOINT = 'https://my-resource.cognitiveservices.azure.com';
 
@@ -74,6 +80,14 @@ describe('resolveAdapter — model ID heuristics', () => {
   it('claude-sonnet-4-6 resolves to AnthropicAdapter', () => {
     expect(resolveAdapter('claude-sonnet-4-6', undefined, () => 'id')).toBeInstanceOf(AnthropicAdapter);
   });
+
+  it('gpt-5-codex resolves to OpenAIResponsesAdapter', () => {
+    expect(resolveAdapter('gpt-5-codex', undefined, () => 'id')).toBeInstanceOf(OpenAIResponsesAdapter);
+  });
+
+  it('o3-pro resolves to OpenAIResponsesAdapter', () => {
+    expect(resolveAdapter('o3-pro', undefined, () => 'id')).toBeInstanceOf(OpenAIResponsesAdapter);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -93,6 +107,10 @@ describe('resolveAdapter — explicit adapterType override', () => {
   it('explicitly sets anthropic to AnthropicAdapter', () => {
     expect(resolveAdapter('gpt-4o', 'anthropic', () => 'id')).toBeInstanceOf(AnthropicAdapter);
   });
+
+  it('explicitly sets openai-responses to OpenAIResponsesAdapter', () => {
+    expect(resolveAdapter('o3', 'openai-responses', () => 'id')).toBeInstanceOf(OpenAIResponsesAdapter);
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -154,3 +172,916 @@ describe('openai-legacy adapter — request shape', () => {
     expect(requests[0].body).not.toHaveProperty('max_completion_tokens');
   });
 });
+
+// ---------------------------------------------------------------------------
+// OpenAI Responses adapter wire format (/openai/v1/responses)
+// ---------------------------------------------------------------------------
+
+function responsesResponse(output: unknown[], extra: Record<string, unknown> = {}) {
+  return {
+    id: 'resp_1',
+    model: 'gpt-5-codex',
+    status: 'completed',
+    output,
+    usage: { input_tokens: 11, output_tokens: 7, total_tokens: 18 },
+    ...extra,
+  };
+}
+
+async function drain(stream: ReadableStream<unknown>) {
+  const parts: any[] = [];
+  const reader = stream.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return parts;
+}
+
+describe('openai-responses adapter — request shape', () => {
+  it('posts to /openai/v1/responses with the model in the body', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(requests[0].url).toBe('https://my-resource.cognitiveservices.azure.com/openai/v1/responses');
+    expect(requests[0].body).toMatchObject({ model: 'gpt-5-codex', store: false });
+  });
+
+  it('asks reasoning models for encrypted reasoning content', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+    expect(requests[0].body).toMatchObject({ include: ['reasoning.encrypted_content'] });
+  });
+
+  it('omits include for non-reasoning models unless requested', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    const model = makeModel(fetch, 'gpt-4.1', { adapterType: 'openai-responses' });
+    await model.doGenerate({ prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }] });
+    expect(requests[0].body).not.toHaveProperty('include');
+
+    await model.doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+      providerOptions: { 'azure-foundry': { include: ['message.output_text.logprobs'] } },
+    });
+    expect(requests[1].body).toMatchObject({ include: ['message.output_text.logprobs'] });
+  });
+
+  it('sends json_schema text format, strict unless strictJsonSchema is false', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    const model = makeModel(fetch, 'gpt-5-codex');
+    const schema = { type: 'object', properties: { foo: { type: 'number' } } };
+    const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'json' }] }];
+    await model.doGenerate({ prompt, responseFormat: { type: 'json', schema, name: 'result' } });
+    await model.doGenerate({
+      prompt,
+      responseFormat: { type: 'json', schema, name: 'result' },
+      providerOptions: { 'azure-foundry': { strictJsonSchema: false } },
+    });
+
+    expect((requests[0].body as any).text.format).toEqual({ type: 'json_schema', name: 'result', schema, strict: true });
+    expect((requests[1].body as any).text.format).toEqual({ type: 'json_schema', name: 'result', schema, strict: false });
+  });
+
+  it('converts prompt messages into input items', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      maxOutputTokens: 500,
+      prompt: [
+        { role: 'system', content: 'Be terse.' },
+        { role: 'user', content: [{ type: 'text', text: 'weather?' }] },
+        {
+          role: 'assistant',
+          content: [
+            {
+              type: 'reasoning',
+              text: 'Need the tool.',
+              providerOptions: { 'azure-foundry': { itemId: 'rs_1', reasoningEncryptedContent: 'enc' } },
+            },
+            { type: 'tool-call', toolCallId: 'call_1', toolName: 'get_weather', input: { city: 'Oslo' } },
+          ],
+        },
+        {
+          role: 'tool',
+          content: [{
+            type: 'tool-result',
+            toolCallId: 'call_1',
+            toolName: 'get_weather',
+            output: { type: 'json', value: { temp: 3 } },
+          }],
+        },
+      ],
+    });
+
+    expect(requests[0].body).toMatchObject({
+      max_output_tokens: 500,
+      input: [
+        { role: 'system', content: 'Be terse.' },
+        { role: 'user', content: [{ type: 'input_text', text: 'weather?' }] },
+        {
+          type: 'reasoning',
+          id: 'rs_1',
+          encrypted_content: 'enc',
+          summary: [{ type: 'summary_text', text: 'Need the tool.' }],
+        },
+        { type: 'function_call', call_id: 'call_1', name: 'get_weather', arguments: '{"city":"Oslo"}' },
+        { type: 'function_call_output', call_id: 'call_1', output: '{"temp":3}' },
+      ],
+    });
+  });
+
+  it('sends flat function tools and tool_choice', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      tools: [{ type: 'function', name: 'run', description: 'Run', inputSchema: { type: 'object' } }],
+      toolChoice: { type: 'tool', toolName: 'run' },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'go' }] }],
+    });
+
+    expect(requests[0].body).toMatchObject({
+      tools: [{ type: 'function', name: 'run', description: 'Run', parameters: { type: 'object' } }],
+      tool_choice: { type: 'function', name: 'run' },
+    });
+  });
+});
+
+describe('openai-responses adapter — response parsing', () => {
+  it('maps message, function_call and reasoning output items', async () => {
+    const { fetch } = fakeFetch(responsesResponse([
+      { type: 'reasoning', id: 'rs_1', encrypted_content: 'enc', summary: [{ type: 'summary_text', text: 'Thinking' }] },
+      { type: 'message', id: 'msg_1', role: 'assistant', content: [{ type: 'output_text', text: 'Calling tool', annotations: [] }] },
+      { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'run', arguments: '{}' },
+    ]));
+    const result = await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'go' }] }],
+    });
+
+    expect(result.content).toEqual([
+      {
+        type: 'reasoning',
+        text: 'Thinking',
+        providerMetadata: { 'azure-foundry': { itemId: 'rs_1', reasoningEncryptedContent: 'enc' } },
+      },
+      { type: 'text', text: 'Calling tool' },
+      { type: 'tool-call', toolCallId: 'call_1', toolName: 'run', input: '{}' },
+    ]);
+    expect(result.finishReason).toMatchObject({ unified: 'tool-calls' });
+    expect(result.usage.inputTokens.total).toBe(11);
+    expect(result.usage.outputTokens.total).toBe(7);
+  });
+
+  it('reports cached and reasoning token details', async () => {
+    const usage = {
+      input_tokens: 40,
+      output_tokens: 30,
+      total_tokens: 70,
+      input_tokens_details: { cached_tokens: 32 },
+      output_tokens_details: { reasoning_tokens: 24 },
+    };
+    const { fetch } = fakeFetch(responsesResponse([], { usage }));
+    const result = await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'go' }] }],
+    });
+
+    expect(result.usage).toEqual({
+      inputTokens: { total: 40, noCache: 8, cacheRead: 32, cacheWrite: undefined },
+      outputTokens: { total: 30, text: 6, reasoning: 24 },
+    });
+    expect(result.providerMetadata).toEqual({
+      'azure-foundry': { usage, clientRequestId: expect.any(String) },
+    });
+  });
+
+  it('maps incomplete max_output_tokens to length', async () => {
+    const { fetch } = fakeFetch(responsesResponse([], {
+      status: 'incomplete',
+      incomplete_details: { reason: 'max_output_tokens' },
+    }));
+    const result = await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'go' }] }],
+    });
+
+    expect(result.finishReason).toEqual({ unified: 'length', raw: 'max_output_tokens' });
+  });
+});
+
+describe('openai-responses adapter — streaming', () => {
+  it('maps typed SSE events to text, tool and reasoning parts', async () => {
+    const { fetch } = fakeStreamFetch([
+      { type: 'response.created', response: { id: 'resp_1' } },
+      { type: 'response.output_item.added', output_index: 0, item: { type: 'reasoning', id: 'rs_1', summary: [] } },
+      { type: 'response.reasoning_summary_text.delta', item_id: 'rs_1', summary_index: 0, delta: 'Plan' },
+      { type: 'response.output_item.done', output_index: 0, item: { type: 'reasoning', id: 'rs_1', encrypted_content: 'enc', summary: [] } },
+      { type: 'response.output_item.added', output_index: 1, item: { type: 'message', id: 'msg_1', role: 'assistant', content: [] } },
+      { type: 'response.output_text.delta', item_id: 'msg_1', output_index: 1, content_index: 0, delta: 'Hel' },
+      { type: 'response.output_text.delta', item_id: 'msg_1', output_index: 1, content_index: 0, delta: 'lo' },
+      { type: 'response.output_item.done', output_index: 1, item: { type: 'message', id: 'msg_1', role: 'assistant', content: [] } },
+      { type: 'response.output_item.added', output_index: 2, item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'run', arguments: '' } },
+      { type: 'response.function_call_arguments.delta', item_id: 'fc_1', output_index: 2, delta: '{"a":' },
+      { type: 'response.function_call_arguments.delta', item_id: 'fc_1', output_index: 2, delta: '1}' },
+      { type: 'response.output_item.done', output_index: 2, item: { type: 'function_call', id: 'fc_1', call_id: 'call_1', name: 'run', arguments: '{"a":1}' } },
+      { type: 'response.completed', response: { id: 'resp_1', status: 'completed', usage: { input_tokens: 5, output_tokens: 9 } } },
+    ]);
+    const { stream } = await makeModel(fetch, 'gpt-5-codex').doStream({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'go' }] }],
+    });
+    const parts = (await drain(stream)).filter(p => p.type !== 'stream-start');
+
+    expect(parts.map(p => p.type)).toEqual([
+      'reasoning-start', 'reasoning-delta', 'reasoning-end',
+      'text-start', 'text-delta', 'text-delta', 'text-end',
+      'tool-input-start', 'tool-input-delta', 'tool-input-delta', 'tool-input-end', 'tool-call',
+      'finish',
+    ]);
+    expect(parts[2].providerMetadata).toEqual({ 'azure-foundry': { itemId: 'rs_1', reasoningEncryptedContent: 'enc' } });
+    expect(parts[11]).toMatchObject({ toolCallId: 'call_1', toolName: 'run', input: '{"a":1}' });
+    expect(parts[12].finishReason).toMatchObject({ unified: 'tool-calls' });
+    expect(parts[12].usage.inputTokens.total).toBe(5);
+  });
+
+  it('surfaces error events as error parts', async () => {
+    const { fetch } = fakeStreamFetch([
+      { type: 'error', code: 'server_error', message: 'boom' },
+    ]);
+    const { stream } = await makeModel(fetch, 'gpt-5-codex').doStream({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'go' }] }],
+    });
+    const parts = await drain(stream);
+
+    expect(parts.find(p => p.type === 'error')?.error).toMatchObject({ message: 'boom' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Anthropic adapter — extended thinking
+// ---------------------------------------------------------------------------
+
+function anthropicResponse(content: unknown[], extra: Record<string, unknown> = {}) {
+  return {
+    id: 'msg_1',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-sonnet-4-6',
+    content,
+    stop_reason: 'end_turn',
+    usage: { input_tokens: 12, output_tokens: 30 },
+    ...extra,
+  };
+}
+
+describe('anthropic adapter — extended thinking', () => {
+  it('sends thinking with the budget added on top of max_tokens', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      maxOutputTokens: 1000,
+      temperature: 0.7,
+      providerOptions: { 'azure-foundry': { thinking: { type: 'enabled', budgetTokens: 2048 } } },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(requests[0].body).toMatchObject({
+      max_tokens: 3048,
+      thinking: { type: 'enabled', budget_tokens: 2048 },
+    });
+    expect(requests[0].body).not.toHaveProperty('temperature');
+    expect(result.warnings).toContainEqual(expect.objectContaining({ type: 'unsupported', feature: 'temperature' }));
+  });
+
+  it('omits thinking when not enabled', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(requests[0].body).not.toHaveProperty('thinking');
+    expect(requests[0].body).toHaveProperty('max_tokens', 4096);
+  });
+
+  it('rejects an enabled thinking config without a budget', async () => {
+    const { fetch } = fakeFetch(anthropicResponse([]));
+    await expect(makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      providerOptions: { 'azure-foundry': { thinking: { type: 'enabled' } } },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    })).rejects.toThrow(/budgetTokens/);
+  });
+
+  it('maps thinking and redacted_thinking blocks to reasoning parts', async () => {
+    const { fetch } = fakeFetch(anthropicResponse([
+      { type: 'thinking', thinking: 'Let me think.', signature: 'sig_1' },
+      { type: 'redacted_thinking', data: 'opaque' },
+      { type: 'text', text: 'Answer' },
+    ]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(result.content).toEqual([
+      { type: 'reasoning', text: 'Let me think.', providerMetadata: { 'azure-foundry': { signature: 'sig_1' } } },
+      { type: 'reasoning', text: '', providerMetadata: { 'azure-foundry': { redactedData: 'opaque' } } },
+      { type: 'text', text: 'Answer' },
+    ]);
+  });
+
+  it('round-trips signed reasoning as thinking blocks and drops unsigned reasoning', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'weather?' }] },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'reasoning', text: 'Need the tool.', providerOptions: { 'azure-foundry': { signature: 'sig_1' } } },
+            { type: 'reasoning', text: '', providerOptions: { 'azure-foundry': { redactedData: 'opaque' } } },
+            { type: 'reasoning', text: 'unsigned' },
+            { type: 'tool-call', toolCallId: 'toolu_1', toolName: 'get_weather', input: { city: 'Oslo' } },
+          ],
+        },
+      ],
+    });
+
+    expect((requests[0].body as any).messages[1]).toEqual({
+      role: 'assistant',
+      content: [
+        { type: 'thinking', thinking: 'Need the tool.', signature: 'sig_1' },
+        { type: 'redacted_thinking', data: 'opaque' },
+        { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Oslo' } },
+      ],
+    });
+  });
+
+  it('streams thinking_delta and signature_delta as reasoning parts', async () => {
+    const { fetch } = fakeStreamFetch([
+      { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-6', usage: { input_tokens: 12, output_tokens: 0 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'thinking_delta', thinking: 'Hmm' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'signature_delta', signature: 'sig_1' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'text_delta', text: 'Hi' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 30 } },
+      { type: 'message_stop' },
+    ]);
+    const { stream } = await makeModel(fetch, 'claude-sonnet-4-6').doStream({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+    const parts = (await drain(stream)).filter(p => p.type !== 'stream-start');
+
+    expect(parts.slice(0, 3)).toEqual([
+      { type: 'reasoning-start', id: 'reasoning-0' },
+      { type: 'reasoning-delta', id: 'reasoning-0', delta: 'Hmm' },
+      { type: 'reasoning-end', id: 'reasoning-0', providerMetadata: { 'azure-foundry': { signature: 'sig_1' } } },
+    ]);
+    expect(parts.map(p => p.type)).toContain('text-delta');
+  });
+});
+
+describe('anthropic adapter — tool results', () => {
+  const assistantToolCalls = {
+    role: 'assistant' as const,
+    content: [
+      { type: 'tool-call' as const, toolCallId: 'toolu_1', toolName: 'get_weather', input: { city: 'Oslo' } },
+      { type: 'tool-call' as const, toolCallId: 'toolu_2', toolName: 'screenshot', input: {} },
+    ],
+  };
+
+  it('sends tool_result blocks grouped into one user turn', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'weather?' }] },
+        assistantToolCalls,
+        {
+          role: 'tool',
+          content: [{ type: 'tool-result', toolCallId: 'toolu_1', toolName: 'get_weather', output: { type: 'json', value: { temp: 3 } } }],
+        },
+        {
+          role: 'tool',
+          content: [{ type: 'tool-result', toolCallId: 'toolu_2', toolName: 'screenshot', output: { type: 'error-text', value: 'no display' } }],
+        },
+      ],
+    });
+
+    const messages = (requests[0].body as any).messages;
+    expect(messages).toHaveLength(3);
+    expect(messages[2]).toEqual({
+      role: 'user',
+      content: [
+        { type: 'tool_result', tool_use_id: 'toolu_1', content: '{"temp":3}' },
+        { type: 'tool_result', tool_use_id: 'toolu_2', content: 'no display', is_error: true },
+      ],
+    });
+  });
+
+  it('passes images inside tool results as image blocks', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'look' }] },
+        assistantToolCalls,
+        {
+          role: 'tool',
+          content: [{
+            type: 'tool-result',
+            toolCallId: 'toolu_2',
+            toolName: 'screenshot',
+            output: {
+              type: 'content',
+              value: [
+                { type: 'text', text: 'Screen:' },
+                { type: 'image-data', data: 'iVBORw0KGgo=', mediaType: 'image/png' },
+              ],
+            },
+          }],
+        },
+      ],
+    });
+
+    expect((requests[0].body as any).messages[2].content[0]).toEqual({
+      type: 'tool_result',
+      tool_use_id: 'toolu_2',
+      content: [
+        { type: 'text', text: 'Screen:' },
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' } },
+      ],
+    });
+  });
+
+  it('sends PDFs inside tool results as document blocks and drops other files', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [
+        { role: 'user', content: [{ type: 'text', text: 'read' }] },
+        assistantToolCalls,
+        {
+          role: 'tool',
+          content: [{
+            type: 'tool-result',
+            toolCallId: 'toolu_2',
+            toolName: 'fetch_file',
+            output: {
+              type: 'content',
+              value: [
+                { type: 'file-data', data: 'JVBERi0=', mediaType: 'application/pdf', filename: 'report.pdf' },
+                { type: 'file-data', data: 'UEsDBA==', mediaType: 'application/zip' },
+              ],
+            },
+          }],
+        },
+      ],
+    });
+
+    expect((requests[0].body as any).messages[2].content[0]).toEqual({
+      type: 'tool_result',
+      tool_use_id: 'toolu_2',
+      content: [{
+        type: 'document',
+        source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' },
+        title: 'report.pdf',
+      }],
+    });
+    expect(JSON.stringify(requests[0].body)).not.toContain('UEsDBA==');
+    expect(result.warnings).toContainEqual({
+      type: 'unsupported',
+      feature: 'tool result file with media type application/zip',
+    });
+  });
+});
+
+describe('anthropic adapter — image and document inputs', () => {
+  it('sends images as base64 and url image blocks', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'Compare these' },
+          { type: 'file', data: new Uint8Array([1, 2, 3]), mediaType: 'image/png' },
+          { type: 'file', data: new URL('https://example.com/cat.jpg'), mediaType: 'image/jpeg' },
+        ],
+      }],
+    });
+
+    expect((requests[0].body as any).messages[0].content).toEqual([
+      { type: 'text', text: 'Compare these' },
+      { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'AQID' } },
+      { type: 'image', source: { type: 'url', url: 'https://example.com/cat.jpg' } },
+    ]);
+  });
+
+  it('sends PDFs and plain text as document blocks', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [{
+        role: 'user',
+        content: [
+          { type: 'file', data: 'JVBERi0=', mediaType: 'application/pdf', filename: 'scan.pdf' },
+          { type: 'file', data: new TextEncoder().encode('hello'), mediaType: 'text/plain' },
+        ],
+      }],
+    });
+
+    expect((requests[0].body as any).messages[0].content).toEqual([
+      { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' }, title: 'scan.pdf' },
+      { type: 'document', source: { type: 'text', media_type: 'text/plain', data: 'hello' } },
+    ]);
+  });
+
+  it('warns on and drops unsupported media types', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [{
+        role: 'user',
+        content: [
+          { type: 'text', text: 'listen' },
+          { type: 'file', data: 'AAAA', mediaType: 'audio/wav' },
+        ],
+      }],
+    });
+
+    expect((requests[0].body as any).messages[0].content).toEqual([{ type: 'text', text: 'listen' }]);
+    expect(result.warnings).toContainEqual({ type: 'unsupported', feature: 'file part with media type audio/wav' });
+  });
+
+  it('declares the URLs each adapter passes through instead of downloading', () => {
+    const { fetch } = fakeFetch(anthropicResponse([]));
+    const claude = makeModel(fetch, 'claude-sonnet-4-6').supportedUrls as Record<string, RegExp[]>;
+    expect(Object.keys(claude)).toEqual(['image/*', 'application/pdf']);
+    expect(claude['application/pdf'][0].test('https://example.com/scan.pdf')).toBe(true);
+
+    expect(Object.keys(makeModel(fetch, 'gpt-4o').supportedUrls)).toEqual(['image/*']);
+    expect(Object.keys(makeModel(fetch, 'gpt-5-codex').supportedUrls)).toEqual(['image/*']);
+  });
+});
+
+describe('anthropic adapter — JSON response format', () => {
+  const schema = { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] };
+
+  it('forces a synthetic json tool built from the schema', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      responseFormat: { type: 'json', schema },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+
+    expect(requests[0].body).toMatchObject({
+      tools: [{ name: 'json', description: 'Respond with a JSON object.', input_schema: schema }],
+      tool_choice: { type: 'tool', name: 'json' },
+    });
+  });
+
+  it('does not force the json tool while thinking is enabled', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      responseFormat: { type: 'json', schema },
+      providerOptions: { 'azure-foundry': { thinking: { type: 'enabled', budgetTokens: 2048 } } },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+
+    expect(requests[0].body).toMatchObject({
+      tools: [{ name: 'json', input_schema: schema }],
+      tool_choice: { type: 'auto' },
+    });
+    expect(result.warnings).toContainEqual(expect.objectContaining({
+      type: 'other',
+      message: expect.stringContaining('extended thinking'),
+    }));
+  });
+
+  it('keeps the text when Claude answers without calling the optional json tool', async () => {
+    const thinking = { 'azure-foundry': { thinking: { type: 'enabled', budgetTokens: 2048 } } };
+    const { fetch } = fakeFetch(anthropicResponse(
+      [{ type: 'text', text: '{"city":"Oslo"}' }],
+      { stop_reason: 'end_turn' },
+    ));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      responseFormat: { type: 'json', schema },
+      providerOptions: thinking,
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+    expect(result.content).toEqual([{ type: 'text', text: '{"city":"Oslo"}' }]);
+    expect(result.finishReason).toEqual({ unified: 'stop', raw: 'end_turn' });
+
+    const { fetch: streamFetch } = fakeStreamFetch([
+      { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-6', usage: { input_tokens: 12, output_tokens: 0 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '{"city":' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: '"Oslo"}' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 9 } },
+      { type: 'message_stop' },
+    ]);
+    const { stream } = await makeModel(streamFetch, 'claude-sonnet-4-6').doStream({
+      responseFormat: { type: 'json', schema },
+      providerOptions: thinking,
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+    const parts = (await drain(stream)).filter(p => p.type !== 'stream-start');
+    expect(parts.slice(0, 3)).toEqual([
+      { type: 'text-start', id: 'text-0' },
+      { type: 'text-delta', id: 'text-0', delta: '{"city":"Oslo"}' },
+      { type: 'text-end', id: 'text-0' },
+    ]);
+    expect(parts[parts.length - 1].finishReason).toEqual({ unified: 'stop', raw: 'end_turn' });
+  });
+
+  it('drops prose before the optional json tool call', async () => {
+    const { fetch } = fakeStreamFetch([
+      { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-6', usage: { input_tokens: 12, output_tokens: 0 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Here you go:' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'json', input: {} } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":"Oslo"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+      { type: 'message_stop' },
+    ]);
+    const { stream } = await makeModel(fetch, 'claude-sonnet-4-6').doStream({
+      responseFormat: { type: 'json', schema },
+      providerOptions: { 'azure-foundry': { thinking: { type: 'enabled', budgetTokens: 2048 } } },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+    const parts = (await drain(stream)).filter(p => p.type !== 'stream-start');
+    expect(parts.filter(p => p.type.startsWith('text'))).toEqual([
+      { type: 'text-start', id: 'text-1' },
+      { type: 'text-delta', id: 'text-1', delta: '{"city":"Oslo"}' },
+      { type: 'text-end', id: 'text-1' },
+    ]);
+  });
+
+  it('returns the tool input as text with a stop finish reason', async () => {
+    const { fetch } = fakeFetch(anthropicResponse(
+      [
+        { type: 'text', text: 'Here you go:' },
+        { type: 'tool_use', id: 'toolu_1', name: 'json', input: { city: 'Oslo' } },
+      ],
+      { stop_reason: 'tool_use' },
+    ));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      responseFormat: { type: 'json', schema },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+
+    expect(result.content).toEqual([{ type: 'text', text: '{"city":"Oslo"}' }]);
+    expect(result.finishReason).toEqual({ unified: 'stop', raw: 'tool_use' });
+  });
+
+  it('streams the tool input as text deltas', async () => {
+    const { fetch } = fakeStreamFetch([
+      { type: 'message_start', message: { id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-6', usage: { input_tokens: 12, output_tokens: 0 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'tool_use', id: 'toolu_1', name: 'json', input: {} } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'input_json_delta', partial_json: '"Oslo"}' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 9 } },
+      { type: 'message_stop' },
+    ]);
+    const { stream } = await makeModel(fetch, 'claude-sonnet-4-6').doStream({
+      responseFormat: { type: 'json', schema },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'pick a city' }] }],
+    });
+    const parts = (await drain(stream)).filter(p => p.type !== 'stream-start');
+
+    expect(parts.slice(0, 4)).toEqual([
+      { type: 'text-start', id: 'text-0' },
+      { type: 'text-delta', id: 'text-0', delta: '{"city":' },
+      { type: 'text-delta', id: 'text-0', delta: '"Oslo"}' },
+      { type: 'text-end', id: 'text-0' },
+    ]);
+    expect(parts.map(p => p.type)).not.toContain('tool-call');
+    expect(parts[parts.length - 1].finishReason).toEqual({ unified: 'stop', raw: 'tool_use' });
+  });
+
+  it('warns and sends no tool when no schema is given', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([{ type: 'text', text: '{}' }]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      responseFormat: { type: 'json' },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'json please' }] }],
+    });
+
+    expect(requests[0].body).not.toHaveProperty('tool_choice');
+    expect(result.warnings).toContainEqual(expect.objectContaining({ type: 'unsupported', feature: 'responseFormat' }));
+    expect(result.content).toEqual([{ type: 'text', text: '{}' }]);
+  });
+});
+
+describe('anthropic adapter — tool_choice', () => {
+  const tools = [{ type: 'function' as const, name: 'run', description: 'Run', inputSchema: { type: 'object' } }];
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'go' }] }];
+
+  it.each([
+    [{ type: 'auto' as const }, { type: 'auto' }],
+    [{ type: 'required' as const }, { type: 'any' }],
+    [{ type: 'none' as const }, { type: 'none' }],
+    [{ type: 'tool' as const, toolName: 'run' }, { type: 'tool', name: 'run' }],
+  ])('maps %o to %o', async (toolChoice, expected) => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({ tools, toolChoice, prompt });
+
+    expect(requests[0].body).toHaveProperty('tool_choice', expected);
+  });
+
+  it('omits tool_choice when none is requested', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({ tools, prompt });
+
+    expect(requests[0].body).not.toHaveProperty('tool_choice');
+  });
+
+  it('sets disable_parallel_tool_use from provider options', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      tools,
+      toolChoice: { type: 'required' },
+      providerOptions: { 'azure-foundry': { disableParallelToolUse: true } },
+      prompt,
+    });
+
+    expect(requests[0].body).toHaveProperty('tool_choice', { type: 'any', disable_parallel_tool_use: true });
+  });
+
+  it('falls back to auto with a warning when forcing a tool while thinking', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      tools,
+      toolChoice: { type: 'tool', toolName: 'run' },
+      providerOptions: { 'azure-foundry': { thinking: { type: 'enabled', budgetTokens: 1024 } } },
+      prompt,
+    });
+
+    expect(requests[0].body).toHaveProperty('tool_choice', { type: 'auto' });
+    expect(result.warnings).toContainEqual(expect.objectContaining({ type: 'unsupported', feature: 'toolChoice' }));
+  });
+});
+
+describe('anthropic adapter — prompt caching', () => {
+  const ephemeral = { 'azure-foundry': { cacheControl: { type: 'ephemeral' } } };
+
+  it('sends system as a block array when a system message is cached', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [
+        { role: 'system', content: 'Long instructions', providerOptions: ephemeral },
+        { role: 'user', content: [{ type: 'text', text: 'hi' }] },
+      ],
+    });
+
+    expect(requests[0].body).toHaveProperty('system', [
+      { type: 'text', text: 'Long instructions', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+
+  it('keeps system as a string without cache breakpoints', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [
+        { role: 'system', content: 'Be terse.' },
+        { role: 'user', content: [{ type: 'text', text: 'hi' }] },
+      ],
+    });
+
+    expect(requests[0].body).toHaveProperty('system', 'Be terse.');
+  });
+
+  it('attaches cache_control to tools, parts and the last block of a message', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      tools: [{ type: 'function', name: 'run', inputSchema: { type: 'object' }, providerOptions: ephemeral }],
+      prompt: [
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: 'context', providerOptions: ephemeral },
+            { type: 'text', text: 'question' },
+          ],
+        },
+        { role: 'assistant', content: [{ type: 'text', text: 'answer' }], providerOptions: ephemeral },
+      ],
+    });
+
+    const body = requests[0].body as any;
+    expect(body.tools[0].cache_control).toEqual({ type: 'ephemeral' });
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'context', cache_control: { type: 'ephemeral' } },
+      { type: 'text', text: 'question' },
+    ]);
+    expect(body.messages[1].content).toEqual([
+      { type: 'text', text: 'answer', cache_control: { type: 'ephemeral' } },
+    ]);
+  });
+
+  it('reports cache write and read tokens in usage', async () => {
+    const { fetch } = fakeFetch(anthropicResponse([{ type: 'text', text: 'ok' }], {
+      usage: { input_tokens: 10, output_tokens: 5, cache_creation_input_tokens: 200, cache_read_input_tokens: 1000 },
+    }));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(result.usage.inputTokens).toEqual({ total: 1210, noCache: 10, cacheRead: 1000, cacheWrite: 200 });
+  });
+
+  it('reports cache usage from message_start when streaming', async () => {
+    const { fetch } = fakeStreamFetch([
+      {
+        type: 'message_start',
+        message: {
+          id: 'msg_1', type: 'message', role: 'assistant', content: [], model: 'claude-sonnet-4-6',
+          usage: { input_tokens: 10, output_tokens: 0, cache_read_input_tokens: 500 },
+        },
+      },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } },
+      { type: 'message_stop' },
+    ]);
+    const { stream } = await makeModel(fetch, 'claude-sonnet-4-6').doStream({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+    const finish = (await drain(stream)).find(p => p.type === 'finish');
+
+    expect(finish.usage.inputTokens).toEqual({ total: 510, noCache: 10, cacheRead: 500, cacheWrite: undefined });
+    expect(finish.usage.outputTokens.total).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// providerOptions['azure-foundry'] passthrough
+// ---------------------------------------------------------------------------
+
+describe('provider options passthrough', () => {
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+  it('maps known OpenAI options to chat completions fields', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    await makeModel(fetch, 'o3-mini').doGenerate({
+      prompt,
+      providerOptions: {
+        'azure-foundry': {
+          reasoningEffort: 'low',
+          parallelToolCalls: false,
+          user: 'user-1',
+          logitBias: { '50256': -100 },
+          serviceTier: 'priority',
+          metadata: { team: 'search' },
+        },
+      },
+    });
+
+    expect(requests[0].body).toMatchObject({
+      reasoning_effort: 'low',
+      parallel_tool_calls: false,
+      user: 'user-1',
+      logit_bias: { '50256': -100 },
+      service_tier: 'priority',
+      metadata: { team: 'search' },
+    });
+  });
+
+  it('merges extraBody last so it can override computed fields', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    await makeModel(fetch, 'gpt-4o').doGenerate({
+      prompt,
+      maxOutputTokens: 100,
+      providerOptions: { 'azure-foundry': { extraBody: { max_tokens: 50, data_sources: [{ type: 'azure_search' }] } } },
+    });
+
+    expect(requests[0].body).toMatchObject({ max_tokens: 50, data_sources: [{ type: 'azure_search' }] });
+  });
+
+  it('warns about keys the resolved adapter does not support', async () => {
+    const { fetch, requests } = fakeFetch(anthropicResponse([]));
+    const result = await makeModel(fetch, 'claude-sonnet-4-6').doGenerate({
+      prompt,
+      providerOptions: { 'azure-foundry': { reasoningEffort: 'low', topK: 40 } },
+    });
+
+    expect(requests[0].body).toHaveProperty('top_k', 40);
+    expect(requests[0].body).not.toHaveProperty('reasoning_effort');
+    expect(result.warnings).toContainEqual(expect.objectContaining({
+      type: 'unsupported',
+      feature: 'providerOptions.azure-foundry.reasoningEffort',
+    }));
+  });
+
+  it('maps reasoning options to the Responses reasoning object', async () => {
+    const { fetch, requests } = fakeFetch(responsesResponse([]));
+    await makeModel(fetch, 'gpt-5-codex').doGenerate({
+      prompt,
+      providerOptions: { 'azure-foundry': { reasoningEffort: 'high', reasoningSummary: 'auto', user: 'u' } },
+    });
+
+    expect(requests[0].body).toMatchObject({ reasoning: { effort: 'high', summary: 'auto' }, user: 'u' });
+  });
+
+  it('rejects options with the wrong type', async () => {
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    await expect(makeModel(fetch, 'gpt-5').doGenerate({
+      prompt,
+      providerOptions: { 'azure-foundry': { reasoningEffort: 'extreme' } },
+    })).rejects.toThrow(/invalid provider options/);
+  });
+});
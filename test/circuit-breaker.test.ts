@@ -0,0 +1,196 @@
+/**
+ * Unit tests for the circuit breaker — no real Azure dependencies.
+ */
+
+import { APICallError } from '@ai-sdk/provider';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { CircuitOpenError, createAzureFoundry } from '../src/index.js';
+import type { CircuitStateChangeEvent } from '../src/index.js';
+import { AzureFoundryCircuitBreaker } from '../src/azure-foundry-circuit-breaker.js';
+import { chatResponse } from './helpers.js';
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+const URL_A = 'https://a.example/chat/completions';
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+const apiError = (statusCode?: number) =>
+  new APICallError({
+    message: `status ${statusCode ?? 'network'}`,
+    url: URL_A,
+    requestBodyValues: {},
+    statusCode,
+    isRetryable: statusCode == null || statusCode === 429 || statusCode >= 500,
+  });
+
+const fail = (statusCode?: number) => () => Promise.reject(apiError(statusCode));
+const succeed = () => Promise.resolve('ok');
+
+async function failTimes(breaker: AzureFoundryCircuitBreaker, n: number, statusCode = 500) {
+  for (let i = 0; i < n; i++) {
+    await breaker.run(URL_A, fail(statusCode)).catch(() => {});
+  }
+}
+
+// ---------------------------------------------------------------------------
+// AzureFoundryCircuitBreaker
+// ---------------------------------------------------------------------------
+
+describe('AzureFoundryCircuitBreaker', () => {
+  it('opens after failureThreshold consecutive failures and fails fast', async () => {
+    const breaker = new AzureFoundryCircuitBreaker({ failureThreshold: 3 });
+    await failTimes(breaker, 2);
+    expect(breaker.stateOf(URL_A)).toBe('closed');
+    await failTimes(breaker, 1);
+    expect(breaker.stateOf(URL_A)).toBe('open');
+
+    const fn = vi.fn(succeed);
+    const error = await breaker.run(URL_A, fn).catch((e) => e);
+    expect(CircuitOpenError.isInstance(error)).toBe(true);
+    expect(error.url).toBe(URL_A);
+    expect(error.retryAfterMs).toBeGreaterThan(0);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('resets the failure count on success', async () => {
+    const breaker = new AzureFoundryCircuitBreaker({ failureThreshold: 2 });
+    await failTimes(breaker, 1);
+    await breaker.run(URL_A, succeed);
+    await failTimes(breaker, 1);
+    expect(breaker.stateOf(URL_A)).toBe('closed');
+  });
+
+  it('counts network errors and 408 but not 429 or client errors', async () => {
+    const breaker = new AzureFoundryCircuitBreaker({ failureThreshold: 2 });
+    await failTimes(breaker, 5, 429);
+    await failTimes(breaker, 5, 400);
+    expect(breaker.stateOf(URL_A)).toBe('closed');
+
+    await breaker.run(URL_A, fail()).catch(() => {});
+    await breaker.run(URL_A, fail(408)).catch(() => {});
+    expect(breaker.stateOf(URL_A)).toBe('open');
+  });
+
+  it('tracks circuits per URL', async () => {
+    const breaker = new AzureFoundryCircuitBreaker({ failureThreshold: 1 });
+    await failTimes(breaker, 1);
+    await expect(breaker.run('https://b.example/chat/completions', succeed)).resolves.toBe('ok');
+  });
+
+  it('closes after a successful half-open probe', async () => {
+    vi.useFakeTimers();
+    const events: CircuitStateChangeEvent[] = [];
+    const breaker = new AzureFoundryCircuitBreaker({
+      failureThreshold: 1,
+      resetTimeoutMs: 1_000,
+      onStateChange: (event) => events.push(event),
+    });
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1_000);
+
+    await expect(breaker.run(URL_A, succeed)).resolves.toBe('ok');
+    expect(breaker.stateOf(URL_A)).toBe('closed');
+    expect(events.map(({ from, to }) => `${from}->${to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(APICallError.isInstance(events[0].error)).toBe(true);
+  });
+
+  it('re-opens when the probe fails and limits concurrent probes', async () => {
+    vi.useFakeTimers();
+    const breaker = new AzureFoundryCircuitBreaker({ failureThreshold: 1, resetTimeoutMs: 1_000 });
+    await failTimes(breaker, 1);
+    vi.advanceTimersByTime(1_000);
+
+    let rejectProbe!: (error: unknown) => void;
+    const probe = breaker.run(URL_A, () => new Promise((_, reject) => { rejectProbe = reject; }));
+    await expect(breaker.run(URL_A, succeed)).rejects.toSatisfy(CircuitOpenError.isInstance);
+
+    rejectProbe(apiError(503));
+    await probe.catch(() => {});
+    expect(breaker.stateOf(URL_A)).toBe('open');
+  });
+
+  it('ignores errors thrown by the state-change hook', async () => {
+    const breaker = new AzureFoundryCircuitBreaker({
+      failureThreshold: 1,
+      onStateChange: () => { throw new Error('hook failed'); },
+    });
+    await expect(breaker.run(URL_A, fail(500))).rejects.toThrow('status 500');
+    expect(breaker.stateOf(URL_A)).toBe('open');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Provider integration
+// ---------------------------------------------------------------------------
+
+describe('createAzureFoundry — circuitBreaker option', () => {
+  it('fails fast once a deployment keeps returning 5xx', async () => {
+    let calls = 0;
+    const fetch = (async () => {
+      calls++;
+      return new Response(JSON.stringify({ error: { message: 'backend down' } }), {
+        status: 503,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }) as typeof globalThis.fetch;
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      circuitBreaker: { failureThreshold: 2 },
+    });
+    const model = foundry('gpt-test');
+
+    await expect(model.doGenerate({ prompt: PROMPT })).rejects.toThrow('backend down');
+    await expect(model.doStream({ prompt: PROMPT })).rejects.toThrow('backend down');
+    await expect(model.doGenerate({ prompt: PROMPT })).rejects.toSatisfy(CircuitOpenError.isInstance);
+    expect(calls).toBe(2);
+  });
+
+  it('fails over to the next pool backend while a circuit is open', async () => {
+    const hosts: string[] = [];
+    const fetch = (async (input: RequestInfo | URL) => {
+      const host = new URL(String(input)).hostname;
+      hosts.push(host);
+      const down = host.startsWith('a.');
+      return new Response(JSON.stringify(down ? { error: { message: 'down' } } : chatResponse('ok')), {
+        status: down ? 500 : 200,
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }) as typeof globalThis.fetch;
+    const foundry = createAzureFoundry({
+      endpoint: 'https://primary.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      circuitBreaker: { failureThreshold: 1 },
+      deployments: {
+        'gpt-4o': {
+          cooldownMs: 0,
+          backends: [
+            { endpoint: 'https://a.cognitiveservices.azure.com', apiKey: 'a' },
+            { endpoint: 'https://b.cognitiveservices.azure.com', apiKey: 'b' },
+          ],
+        },
+      },
+    });
+    const model = foundry('gpt-4o');
+
+    await model.doGenerate({ prompt: PROMPT });
+    await model.doGenerate({ prompt: PROMPT });
+    await model.doGenerate({ prompt: PROMPT });
+    // a fails once and opens; later calls skip it without a request
+    expect(hosts.filter((h) => h.startsWith('a.'))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Unit tests for the JSONL debug log — no real Azure dependencies.
+ */
+
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryProviderSettings } from '../src/index.js';
+import { AzureFoundryDebugLog, createDebugLog, flushDebugLogs } from '../src/azure-foundry-debug-log.js';
+import { chatResponse, fakeFetch } from './helpers.js';
+
+let dir: string;
+let file: string;
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+  vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG', '');
+  vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG_LEVEL', '');
+  dir = mkdtempSync(join(tmpdir(), 'azure-ai-sdk-log-'));
+  file = join(dir, 'debug.log');
+});
+afterEach(async () => {
+  await flushDebugLogs();
+  vi.unstubAllEnvs();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+type LogRecord = { time: string; level: string; msg: string; [key: string]: unknown };
+
+/** Waits for queued records, then reads the log. */
+async function readLog(path = file): Promise<LogRecord[]> {
+  await flushDebugLogs();
+  return readFileSync(path, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+}
+
+function foundryWith(fetch: typeof globalThis.fetch, settings: Partial<AzureFoundryProviderSettings> = {}) {
+  return createAzureFoundry({
+    endpoint: 'https://test.cognitiveservices.azure.com',
+    apiKey: 'secret-key',
+    fetch,
+    ...settings,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Provider integration
+// ---------------------------------------------------------------------------
+
+describe('debugLog — provider', () => {
+  it('writes JSONL records with a correlation id per call', async () => {
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    const foundry = foundryWith(fetch, { debugLog: { file } });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const records = await readLog();
+    expect(records[0]).toMatchObject({ level: 'info', msg: 'createAzureFoundry called', hasApiKey: true });
+    expect(Date.parse(records[0].time)).not.toBeNaN();
+
+    const requests = records.filter((r) => r.msg === 'request');
+    const responses = records.filter((r) => r.msg === 'response');
+    expect(requests).toHaveLength(2);
+    expect(requests[0].url).toContain('/openai/deployments/gpt-4o/chat/completions');
+    expect(requests[0].callId).not.toBe(requests[1].callId);
+    expect(responses.map((r) => r.callId)).toEqual(requests.map((r) => r.callId));
+    expect(responses[0]).toMatchObject({ status: 200 });
+  });
+
+  it('uses the x-ms-client-request-id as the correlation id', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    await foundryWith(fetch, { debugLog: { file } })('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const request = (await readLog()).find((r) => r.msg === 'request')!;
+    expect(request.callId).toBe(requests[0].headers['x-ms-client-request-id']);
+  });
+
+  it('appends across provider instances instead of overwriting', async () => {
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    foundryWith(fetch, { debugLog: { file } });
+    foundryWith(fetch, { debugLog: { file } });
+    expect((await readLog()).filter((r) => r.msg === 'provider created')).toHaveLength(2);
+  });
+
+  it('redacts credential headers', async () => {
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    const foundry = foundryWith(fetch, {
+      debugLog: { file, level: 'debug', redactHeaders: ['X-Internal-Token'] },
+      headers: {
+        'api-key': 'sub-key',
+        'Ocp-Apim-Subscription-Key': 'sub-key',
+        'x-internal-token': 'internal',
+        'x-trace': 'keep-me',
+      },
+    });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const { headers } = (await readLog()).find((r) => r.msg === 'request headers') as { headers: Record<string, string> };
+    expect(headers).toMatchObject({
+      'authorization': '[REDACTED]',
+      'api-key': '[REDACTED]',
+      'ocp-apim-subscription-key': '[REDACTED]',
+      'x-internal-token': '[REDACTED]',
+      'x-trace': 'keep-me',
+    });
+    expect(readFileSync(file, 'utf8')).not.toContain('secret-key');
+    expect(readFileSync(file, 'utf8')).not.toContain('sub-key');
+  });
+
+  it('captures bodies only when captureBodies is set', async () => {
+    const { fetch } = fakeFetch(chatResponse('the answer'));
+    await foundryWith(fetch, { debugLog: { file, level: 'debug' } })('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect((await readLog()).some((r) => r.msg.endsWith('body'))).toBe(false);
+
+    await foundryWith(fetch, { debugLog: { file, level: 'debug', captureBodies: true } })('gpt-4o')
+      .doGenerate({ prompt: PROMPT });
+    const records = await readLog();
+    const request = records.find((r) => r.msg === 'request body') as { body: { messages: Array<{ role: string }> } };
+    const response = records.find((r) => r.msg === 'response body') as { body: unknown };
+    expect(request.body.messages[0].role).toBe('user');
+    expect(JSON.stringify(response.body)).toContain('the answer');
+  });
+
+  it('logs retries under the call id', async () => {
+    let calls = 0;
+    const fetch = (async () =>
+      ++calls === 1
+        ? new Response('{}', { status: 429, headers: { 'retry-after-ms': '0' } })
+        : new Response(JSON.stringify(chatResponse('ok')), {
+            headers: { 'Content-Type': 'application/json' },
+          })) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { debugLog: { file }, retry: { initialDelayMs: 0 } });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const records = await readLog();
+    const request = records.find((r) => r.msg === 'request')!;
+    expect(records.find((r) => r.msg === 'retry')).toMatchObject({
+      level: 'warn',
+      callId: request.callId,
+      attempt: 1,
+      status: 429,
+    });
+    expect(records.filter((r) => r.msg === 'response')).toHaveLength(1);
+  });
+
+  it('logs failed requests at error level', async () => {
+    const fetch = (async () => {
+      throw new TypeError('fetch failed');
+    }) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { debugLog: { file } });
+    await expect(foundry('gpt-4o').doGenerate({ prompt: PROMPT })).rejects.toThrow();
+
+    expect((await readLog()).find((r) => r.msg === 'request failed')).toMatchObject({
+      level: 'error',
+      error: 'fetch failed',
+    });
+  });
+
+  it('writes nothing when debugLog is false', async () => {
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    const foundry = foundryWith(fetch, { debugLog: false, debugLogFile: file });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(existsSync(file)).toBe(false);
+  });
+
+  it('logs HTTP calls only when the log is configured', async () => {
+    expect(createDebugLog(undefined)?.requests).toBe(false);
+    expect(createDebugLog({ file })?.requests).toBe(true);
+
+    vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG', file);
+    expect(createDebugLog(undefined)?.requests).toBe(true);
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    await foundryWith(fetch)('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect((await readLog()).some((r) => r.msg === 'request')).toBe(true);
+  });
+
+  it('still honours the debugLogFile shorthand, without logging HTTP calls', async () => {
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    await foundryWith(fetch, { debugLogFile: file })('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect((await readLog())[0].msg).toBe('createAzureFoundry called');
+    expect((await readLog()).some((r) => r.msg === 'request')).toBe(false);
+    expect(createDebugLog(undefined, file)).toMatchObject({ file, requests: false });
+
+    vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG', join(dir, 'env.log'));
+    expect(createDebugLog(undefined, file)).toMatchObject({ file, requests: true });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// AzureFoundryDebugLog
+// ---------------------------------------------------------------------------
+
+describe('AzureFoundryDebugLog', () => {
+  it('drops records below the configured level', async () => {
+    const log = new AzureFoundryDebugLog({ file, level: 'warn' });
+    log.debug('d');
+    log.info('i');
+    log.warn('w');
+    log.error('e');
+    expect((await readLog()).map((r) => r.level)).toEqual(['warn', 'error']);
+  });
+
+  it('reads the level from AZURE_AI_SDK_DEBUG_LOG_LEVEL', async () => {
+    vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG_LEVEL', 'ERROR');
+    const log = new AzureFoundryDebugLog({ file });
+    log.warn('w');
+    log.error('e');
+    expect((await readLog()).map((r) => r.msg)).toEqual(['e']);
+  });
+
+  it('rotates by size and keeps maxFiles old files', async () => {
+    const log = new AzureFoundryDebugLog({ file, maxFileBytes: 200, maxFiles: 2 });
+    for (let i = 0; i < 20; i++) log.info('padding the log file', { i });
+    await log.flush();
+
+    expect(existsSync(`${file}.1`)).toBe(true);
+    expect(existsSync(`${file}.2`)).toBe(true);
+    expect(existsSync(`${file}.3`)).toBe(false);
+    expect(readFileSync(file).length).toBeLessThanOrEqual(200);
+    // the newest records stay in the live file
+    expect((await readLog()).at(-1)).toMatchObject({ i: 19 });
+    expect((await readLog(`${file}.1`)).at(-1)!.i).toBeLessThan((await readLog()).at(0)!.i as number);
+  });
+
+  it('writes in the background, in order', async () => {
+    const log = new AzureFoundryDebugLog({ file });
+    for (let i = 0; i < 5; i++) log.info('queued', { i });
+    expect(existsSync(file)).toBe(false);
+
+    await log.flush();
+    log.info('queued', { i: 5 });
+    await log.flush();
+    expect((await readLog()).map((r) => r.i)).toEqual([0, 1, 2, 3, 4, 5]);
+  });
+
+  it('uses AZURE_AI_SDK_DEBUG_LOG as the path, or turns the log off', () => {
+    vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG', file);
+    expect(createDebugLog(undefined)?.file).toBe(file);
+    expect(createDebugLog({ level: 'debug' })?.file).toBe(file);
+
+    vi.stubEnv('AZURE_AI_SDK_DEBUG_LOG', 'off');
+    expect(createDebugLog(undefined)).toBeUndefined();
+    // the environment switch wins over the option
+    expect(createDebugLog({ file })).toBeUndefined();
+    expect(createDebugLog(true)).toBeUndefined();
+  });
+
+  it('keeps appending after the file is rotated by another instance', async () => {
+    const a = new AzureFoundryDebugLog({ file, maxFileBytes: 200, maxFiles: 1 });
+    const b = new AzureFoundryDebugLog({ file, maxFileBytes: 200, maxFiles: 1 });
+    for (let i = 0; i < 10; i++) (i % 2 ? a : b).info('padding the log file', { i });
+    await a.flush();
+    expect((await readLog()).at(-1)).toMatchObject({ i: 9 });
+    expect(readFileSync(file).length).toBeLessThanOrEqual(200);
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Unit tests for deployment pools — no real Azure dependencies.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryDeploymentPoolSettings } from '../src/index.js';
+import { chatResponse, fakeCredential } from './helpers.js';
+
+// Backends without a key or credential fall through to DefaultAzureCredential.
+vi.mock('@azure/identity', () => ({
+  DefaultAzureCredential: class {
+    async getToken() {
+      return { token: 'default-credential-token', expiresOnTimestamp: Date.now() + 3_600_000 };
+    }
+  },
+  getBearerTokenProvider:
+    (credential: { getToken(scope: string): Promise<{ token: string } | null> }, scope: string) =>
+    async () => (await credential.getToken(scope))!.token,
+}));
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+});
+afterEach(() => vi.unstubAllEnvs());
+
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+/**
+ * A fetch that answers per hostname. Hosts listed in `failing` return the
+ * given status; every other host answers with a chat completion.
+ */
+function hostFetch(failing: Record<string, { status: number; headers?: Record<string, string> }> = {}) {
+  const requests: Array<{ url: string; headers: Record<string, string>; body: any }> = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url = String(input);
+    const headers: Record<string, string> = {};
+    new Headers(init?.headers as HeadersInit).forEach((v, k) => { headers[k] = v; });
+    requests.push({ url, headers, body: JSON.parse(init?.body as string) });
+
+    const failure = failing[new URL(url).hostname];
+    if (failure) {
+      return new Response(JSON.stringify({ error: { message: `status ${failure.status}` } }), {
+        status: failure.status,
+        headers: { 'Content-Type': 'application/json', ...failure.headers },
+      });
+    }
+    return new Response(JSON.stringify(chatResponse('ok')), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+  return {
+    fetch: fetch as typeof globalThis.fetch,
+    failing,
+    requests,
+    hosts: () => requests.map((r) => new URL(r.url).hostname),
+  };
+}
+
+function pooled(fetch: typeof globalThis.fetch, pool: AzureFoundryDeploymentPoolSettings) {
+  return createAzureFoundry({
+    endpoint: 'https://primary.cognitiveservices.azure.com',
+    apiKey: 'primary-key',
+    fetch,
+    deployments: { 'gpt-4o': pool },
+  });
+}
+
+const A = 'https://a.cognitiveservices.azure.com';
+const B = 'https://b.cognitiveservices.azure.com';
+
+describe('createAzureFoundry — deployment pools', () => {
+  it('leaves model IDs outside the pool on the primary endpoint', async () => {
+    const f = hostFetch();
+    const foundry = pooled(f.fetch, { backends: [{ endpoint: A, apiKey: 'a' }] });
+    await foundry('gpt-35').doGenerate({ prompt: PROMPT });
+    expect(f.hosts()).toEqual(['primary.cognitiveservices.azure.com']);
+  });
+
+  it('rotates round-robin by weight', async () => {
+    const f = hostFetch();
+    const foundry = pooled(f.fetch, {
+      backends: [
+        { endpoint: A, apiKey: 'a', weight: 2 },
+        { endpoint: B, apiKey: 'b' },
+      ],
+    });
+    const model = foundry('gpt-4o');
+    for (let i = 0; i < 6; i++) await model.doGenerate({ prompt: PROMPT });
+    const hosts = f.hosts().map((h) => h[0]);
+    expect(hosts).toEqual(['a', 'b', 'a', 'a', 'b', 'a']);
+  });
+
+  it('uses each backend URL style, deployment name and auth', async () => {
+    const f = hostFetch();
+    const foundry = pooled(f.fetch, {
+      backends: [
+        { endpoint: A, apiKey: 'key-a', deployment: 'gpt-4o-east' },
+        { resourceName: 'sweden', apiKey: 'key-s' },
+      ],
+    });
+    const model = foundry('gpt-4o');
+    await model.doGenerate({ prompt: PROMPT });
+    await model.doGenerate({ prompt: PROMPT });
+
+    expect(f.requests[0].url).toBe(
+      `${A}/openai/deployments/gpt-4o-east/chat/completions?api-version=2024-10-21`,
+    );
+    expect(f.requests[0].headers.authorization).toBe('Bearer key-a');
+    expect(f.requests[0].body.model).toBeUndefined();
+
+    expect(f.requests[1].url).toBe('https://sweden.services.ai.azure.com/models/chat/completions');
+    expect(f.requests[1].headers.authorization).toBe('Bearer key-s');
+    expect(f.requests[1].body.model).toBe('gpt-4o');
+  });
+
+  it('detects the adapter from the pooled model ID, not the deployment name', async () => {
+    const f = hostFetch();
+    const foundry = createAzureFoundry({
+      endpoint: 'https://primary.cognitiveservices.azure.com',
+      apiKey: 'primary-key',
+      fetch: f.fetch,
+      deployments: {
+        'claude-sonnet-4-6': {
+          backends: [{ endpoint: 'https://a.services.ai.azure.com/models', apiKey: 'a', deployment: 'sonnet-eu' }],
+        },
+      },
+    });
+    // The fake answers in chat-completions shape; only the request matters here.
+    await foundry('claude-sonnet-4-6').doGenerate({ prompt: PROMPT }).catch(() => {});
+
+    expect(f.requests[0].url).toBe('https://a.services.ai.azure.com/anthropic/v1/messages');
+    expect(f.requests[0].body).toMatchObject({ model: 'sonnet-eu', max_tokens: 4096 });
+    expect(f.requests[0].headers['anthropic-version']).toBe('2023-06-01');
+  });
+
+  it('inherits provider-level credential and headers', async () => {
+    const f = hostFetch();
+    const foundry = createAzureFoundry({
+      endpoint: 'https://primary.cognitiveservices.azure.com',
+      credential: fakeCredential('shared-token'),
+      headers: { 'x-team': 'search' },
+      fetch: f.fetch,
+      deployments: { 'gpt-4o': { backends: [{ endpoint: A, headers: { 'x-region': 'a' } }] } },
+    });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(f.requests[0].headers.authorization).toBe('Bearer shared-token');
+    expect(f.requests[0].headers['x-team']).toBe('search');
+    expect(f.requests[0].headers['x-region']).toBe('a');
+  });
+
+  it('does not send AZURE_FOUNDRY_API_KEY to a backend without its own key', async () => {
+    vi.stubEnv('AZURE_FOUNDRY_API_KEY', 'env-key');
+    const f = hostFetch();
+    const foundry = createAzureFoundry({
+      endpoint: 'https://primary.cognitiveservices.azure.com',
+      fetch: f.fetch,
+      deployments: { 'gpt-4o': { backends: [{ endpoint: A }] } },
+    });
+    await foundry('gpt-35').doGenerate({ prompt: PROMPT });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(f.requests[0].headers.authorization).toBe('Bearer env-key');
+    expect(f.requests[1].headers.authorization).toBe('Bearer default-credential-token');
+  });
+
+  it('fails over without applying the retry policy to the throttled backend', async () => {
+    const f = hostFetch({ 'a.cognitiveservices.azure.com': { status: 429, headers: { 'retry-after-ms': '0' } } });
+    const foundry = createAzureFoundry({
+      endpoint: 'https://primary.cognitiveservices.azure.com',
+      apiKey: 'primary-key',
+      fetch: f.fetch,
+      retry: { maxAttempts: 4, initialDelayMs: 0 },
+      deployments: {
+        'gpt-4o': { backends: [{ endpoint: A, apiKey: 'a' }, { endpoint: B, apiKey: 'b' }] },
+      },
+    });
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(f.hosts()).toEqual(['a.cognitiveservices.azure.com', 'b.cognitiveservices.azure.com']);
+
+    // Models outside the pool keep the retry policy.
+    f.failing['primary.cognitiveservices.azure.com'] = { status: 429, headers: { 'retry-after-ms': '0' } };
+    await foundry('gpt-35').doGenerate({ prompt: PROMPT }).catch(() => {});
+    expect(f.hosts().filter((h) => h.startsWith('primary'))).toHaveLength(4);
+  });
+
+  it('fails over on 429 and cools the throttled backend down', async () => {
+    const f = hostFetch({ 'a.cognitiveservices.azure.com': { status: 429 } });
+    const foundry = pooled(f.fetch, {
+      backends: [{ endpoint: A, apiKey: 'a' }, { endpoint: B, apiKey: 'b' }],
+    });
+    const model = foundry('gpt-4o');
+
+    const result = await model.doGenerate({ prompt: PROMPT });
+    expect(result.content).toEqual([{ type: 'text', text: 'ok' }]);
+    expect(f.hosts()).toEqual(['a.cognitiveservices.azure.com', 'b.cognitiveservices.azure.com']);
+
+    await model.doGenerate({ prompt: PROMPT });
+    await model.doGenerate({ prompt: PROMPT });
+    expect(f.hosts().slice(2)).toEqual(['b.cognitiveservices.azure.com', 'b.cognitiveservices.azure.com']);
+  });
+
+  it('returns to a backend once its Retry-After cooldown ends', async () => {
+    vi.useFakeTimers();
+    try {
+      const f = hostFetch({ 'a.cognitiveservices.azure.com': { status: 503, headers: { 'retry-after': '2' } } });
+      const foundry = pooled(f.fetch, {
+        cooldownMs: 60_000,
+        backends: [{ endpoint: A, apiKey: 'a' }, { endpoint: B, apiKey: 'b' }],
+      });
+      const model = foundry('gpt-4o');
+      await model.doGenerate({ prompt: PROMPT });
+      await model.doGenerate({ prompt: PROMPT });
+      expect(f.hosts().map((h) => h[0])).toEqual(['a', 'b', 'b']);
+
+      delete f.failing['a.cognitiveservices.azure.com'];
+      vi.advanceTimersByTime(2000);
+      await model.doGenerate({ prompt: PROMPT });
+      await model.doGenerate({ prompt: PROMPT });
+      expect(f.hosts().slice(3).map((h) => h[0])).toContain('a');
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('least-throttled prefers the backend that has not failed', async () => {
+    const f = hostFetch({ 'a.cognitiveservices.azure.com': { status: 429 } });
+    const foundry = pooled(f.fetch, {
+      strategy: 'least-throttled',
+      cooldownMs: 0,
+      backends: [{ endpoint: A, apiKey: 'a' }, { endpoint: B, apiKey: 'b' }],
+    });
+    const model = foundry('gpt-4o');
+    await model.doGenerate({ prompt: PROMPT });
+    delete f.failing['a.cognitiveservices.azure.com'];
+    await model.doGenerate({ prompt: PROMPT });
+    await model.doGenerate({ prompt: PROMPT });
+    expect(f.hosts().map((h) => h[0])).toEqual(['a', 'b', 'b', 'b']);
+  });
+
+  it('does not fail over on client errors', async () => {
+    const f = hostFetch({ 'a.cognitiveservices.azure.com': { status: 400 } });
+    const foundry = pooled(f.fetch, {
+      backends: [{ endpoint: A, apiKey: 'a' }, { endpoint: B, apiKey: 'b' }],
+    });
+    await expect(foundry('gpt-4o').doGenerate({ prompt: PROMPT })).rejects.toThrow('status 400');
+    expect(f.hosts()).toEqual(['a.cognitiveservices.azure.com']);
+  });
+
+  it('throws the last error when every backend fails', async () => {
+    const f = hostFetch({
+      'a.cognitiveservices.azure.com': { status: 500 },
+      'b.cognitiveservices.azure.com': { status: 429 },
+    });
+    const foundry = pooled(f.fetch, {
+      backends: [{ endpoint: A, apiKey: 'a' }, { endpoint: B, apiKey: 'b' }],
+    });
+    await expect(foundry('gpt-4o').doGenerate({ prompt: PROMPT })).rejects.toThrow('status 429');
+    expect(f.requests).toHaveLength(2);
+  });
+});
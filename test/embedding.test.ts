@@ -0,0 +1,144 @@
+/**
+ * Unit tests for AzureFoundryEmbeddingModel.doEmbed — no real Azure deps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryEmbeddingSettings } from '../src/index.js';
+import {
+  fakeCredential,
+  fakeFetch,
+  fakeErrorFetch,
+  embeddingResponse,
+} from './helpers.js';
+
+const ENDPOINT = 'https://my-resource.cognitiveservices.azure.com';
+
+function makeModel(
+  fetch: typeof globalThis.fetch,
+  modelId = 'text-embedding-3-small',
+  settings: AzureFoundryEmbeddingSettings = {},
+  endpoint = ENDPOINT,
+) {
+  return createAzureFoundry({ endpoint, credential: fakeCredential(), fetch }).embeddingModel(modelId, settings);
+}
+
+// ---------------------------------------------------------------------------
+// URL routing
+// ---------------------------------------------------------------------------
+
+describe('doEmbed — URL routing', () => {
+  it('cognitiveservices endpoint uses the deployment embeddings route', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[0.1, 0.2]]));
+    await makeModel(fetch).doEmbed({ values: ['hello'] });
+
+    expect(requests[0].url).toBe(
+      'https://my-resource.cognitiveservices.azure.com/openai/deployments/text-embedding-3-small/embeddings?api-version=2024-10-21',
+    );
+    expect(requests[0].body).not.toHaveProperty('model');
+  });
+
+  it('services.ai.azure.com endpoint uses /models/embeddings with model in body', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[0.1, 0.2]]));
+    await makeModel(fetch, 'Cohere-embed-v3-english', {}, 'https://my-resource.services.ai.azure.com/models')
+      .doEmbed({ values: ['hello'] });
+
+    expect(requests[0].url).toBe('https://my-resource.services.ai.azure.com/models/embeddings');
+    expect(requests[0].body).toHaveProperty('model', 'Cohere-embed-v3-english');
+  });
+
+  it('attaches the Entra bearer token', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[0.1]]));
+    await makeModel(fetch).doEmbed({ values: ['hello'] });
+
+    expect(requests[0].headers['authorization']).toBe('Bearer fake-token');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Request shape
+// ---------------------------------------------------------------------------
+
+describe('doEmbed — request shape', () => {
+  it('sends values as input', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[1], [2]]));
+    await makeModel(fetch).doEmbed({ values: ['a', 'b'] });
+
+    expect(requests[0].body).toEqual({ input: ['a', 'b'] });
+  });
+
+  it('forwards dimensions, encoding_format and user from settings', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[1, 2, 3]]));
+    await makeModel(fetch, 'text-embedding-3-large', {
+      dimensions: 3,
+      encodingFormat: 'float',
+      user: 'user-123',
+    }).doEmbed({ values: ['a'] });
+
+    expect(requests[0].body).toMatchObject({
+      dimensions: 3,
+      encoding_format: 'float',
+      user: 'user-123',
+    });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Response parsing
+// ---------------------------------------------------------------------------
+
+describe('doEmbed — response parsing', () => {
+  it('returns embeddings and token usage', async () => {
+    const { fetch } = fakeFetch(embeddingResponse([[0.1, 0.2], [0.3, 0.4]], 12));
+    const result = await makeModel(fetch).doEmbed({ values: ['a', 'b'] });
+
+    expect(result.embeddings).toEqual([[0.1, 0.2], [0.3, 0.4]]);
+    expect(result.usage).toEqual({ tokens: 12 });
+  });
+
+  it('decodes base64-encoded float32 embeddings', async () => {
+    const b64 = Buffer.from(new Float32Array([0.5, -1, 2]).buffer).toString('base64');
+    const { fetch } = fakeFetch(embeddingResponse([b64]));
+    const result = await makeModel(fetch, 'text-embedding-3-small', { encodingFormat: 'base64' })
+      .doEmbed({ values: ['a'] });
+
+    expect(result.embeddings).toEqual([[0.5, -1, 2]]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Batching
+// ---------------------------------------------------------------------------
+
+describe('doEmbed — batching', () => {
+  it('defaults maxEmbeddingsPerCall to the Azure OpenAI limit', () => {
+    const { fetch } = fakeFetch(embeddingResponse([]));
+    expect(makeModel(fetch).maxEmbeddingsPerCall).toBe(2048);
+  });
+
+  it('splits inputs larger than maxEmbeddingsPerCall into sequential requests', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[1], [2]], 4));
+    const result = await makeModel(fetch, 'text-embedding-3-small', { maxEmbeddingsPerCall: 2 })
+      .doEmbed({ values: ['a', 'b', 'c', 'd'] });
+
+    expect(requests).toHaveLength(2);
+    expect(requests.map(r => (r.body as any).input)).toEqual([['a', 'b'], ['c', 'd']]);
+    expect(result.embeddings).toHaveLength(4);
+    expect(result.usage).toEqual({ tokens: 8 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Error handling
+// ---------------------------------------------------------------------------
+
+describe('doEmbed — error handling', () => {
+  it('throws APICallError on 400', async () => {
+    const { fetch } = fakeErrorFetch(
+      { error: { message: 'Too many inputs', code: 'invalid_request_error' } },
+      400,
+    );
+
+    await expect(makeModel(fetch).doEmbed({ values: ['a'] })).rejects.toThrow('Too many inputs');
+  });
+});
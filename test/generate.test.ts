@@ -141,6 +141,62 @@ describe('doGenerate — request shape', () => {
     expect(lastMsg.content[0].text).toMatch(/JSON/i);
   });
 
+  it('sends json_schema response_format when a schema is provided', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('{"foo":1}'));
+    const schema = { type: 'object', properties: { foo: { type: 'number' } }, required: ['foo'], additionalProperties: false } as const;
+    await makeModel(fetch, 'gpt-5-mini').doGenerate({
+      responseFormat: { type: 'json', schema, name: 'result' },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'give me json' }] }],
+    });
+
+    expect(requests[0].body).toHaveProperty('response_format', {
+      type: 'json_schema',
+      json_schema: { name: 'result', schema, strict: true },
+    });
+    expect((requests[0].body as any).messages).toHaveLength(1);
+  });
+
+  it('sends a non-strict json_schema when strictJsonSchema is false', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('{"foo":1}'));
+    const schema = { type: 'object', properties: { foo: { type: 'number' } } } as const;
+    await makeModel(fetch, 'gpt-5-mini').doGenerate({
+      responseFormat: { type: 'json', schema, name: 'result' },
+      providerOptions: { 'azure-foundry': { strictJsonSchema: false } },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'give me json' }] }],
+    });
+
+    expect(requests[0].body).toHaveProperty('response_format', {
+      type: 'json_schema',
+      json_schema: { name: 'result', schema, strict: false },
+    });
+  });
+
+  it('sends json_object response_format when no schema is provided', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('{"foo":1}'));
+    await makeModel(fetch, 'gpt-4o').doGenerate({
+      responseFormat: { type: 'json' },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'give me json' }] }],
+    });
+
+    expect(requests[0].body).toHaveProperty('response_format', { type: 'json_object' });
+  });
+
+  it('falls back to the JSON instruction when structuredOutputs is disabled', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('{"foo":1}'));
+    const model = createAzureFoundry({ endpoint: ENDPOINT, credential: fakeCredential(), fetch })(
+      'gpt-4o',
+      { structuredOutputs: false },
+    );
+    await model.doGenerate({
+      responseFormat: { type: 'json', schema: { type: 'object' } },
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'give me json' }] }],
+    });
+
+    const messages = (requests[0].body as any).messages as any[];
+    expect(requests[0].body).not.toHaveProperty('response_format');
+    expect(messages[messages.length - 1].content[0].text).toMatch(/JSON/i);
+  });
+
   it('does not include undefined keys in the body', async () => {
     const { fetch, requests } = fakeFetch(chatResponse('hi'));
     await makeModel(fetch).doGenerate({
@@ -219,6 +275,40 @@ describe('doGenerate — response parsing', () => {
     });
   });
 
+  it('returns cached, reasoning and prediction token details', async () => {
+    const usage = {
+      prompt_tokens: 100,
+      completion_tokens: 50,
+      total_tokens: 150,
+      prompt_tokens_details: { cached_tokens: 60, audio_tokens: 0 },
+      completion_tokens_details: {
+        reasoning_tokens: 30,
+        audio_tokens: 0,
+        accepted_prediction_tokens: 4,
+        rejected_prediction_tokens: 2,
+      },
+    };
+    const { fetch } = fakeFetch({ ...chatResponse('hi'), usage });
+    const result = await makeModel(fetch, 'o3-mini').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(result.usage).toEqual({
+      inputTokens: { total: 100, noCache: 40, cacheRead: 60, cacheWrite: undefined },
+      outputTokens: { total: 50, text: 20, reasoning: 30 },
+    });
+    expect(result.providerMetadata).toEqual({
+      'azure-foundry': {
+        usage,
+        inputAudioTokens: 0,
+        outputAudioTokens: 0,
+        acceptedPredictionTokens: 4,
+        rejectedPredictionTokens: 2,
+        clientRequestId: expect.any(String),
+      },
+    });
+  });
+
   it('returns tool calls from the response', async () => {
     const { fetch } = fakeFetch(chatResponse('', {
       finishReason: 'tool_calls',
@@ -237,6 +327,32 @@ describe('doGenerate — response parsing', () => {
     });
   });
 
+  it('returns message.reasoning_content as a reasoning part', async () => {
+    const response = chatResponse('42');
+    (response.choices[0].message as any).reasoning_content = 'Six times seven.';
+    const { fetch } = fakeFetch(response);
+    const result = await makeModel(fetch, 'DeepSeek-R1').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(result.content).toEqual([
+      { type: 'reasoning', text: 'Six times seven.' },
+      { type: 'text', text: '42' },
+    ]);
+  });
+
+  it('extracts an inline <think> block into a reasoning part', async () => {
+    const { fetch } = fakeFetch(chatResponse('<think>\nSix times seven.\n</think>\n\n42'));
+    const result = await makeModel(fetch, 'DeepSeek-R1').doGenerate({
+      prompt: [{ role: 'user', content: [{ type: 'text', text: 'hi' }] }],
+    });
+
+    expect(result.content).toEqual([
+      { type: 'reasoning', text: '\nSix times seven.\n' },
+      { type: 'text', text: '42' },
+    ]);
+  });
+
   it('includes request body in result', async () => {
     const { fetch } = fakeFetch(chatResponse('hi'));
     const result = await makeModel(fetch).doGenerate({
@@ -309,3 +425,76 @@ describe('doGenerate — error handling', () => {
     })).rejects.toThrow();
   });
 });
+
+// ---------------------------------------------------------------------------
+// Per-model settings defaults
+// ---------------------------------------------------------------------------
+
+describe('doGenerate — settings defaults', () => {
+  const prompt = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+  function makeConfiguredModel(fetch: typeof globalThis.fetch, modelId: string, settings: object) {
+    return createAzureFoundry({ endpoint: ENDPOINT, credential: fakeCredential(), fetch })(modelId, settings);
+  }
+
+  it('applies settings when the call leaves them unset', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    await makeConfiguredModel(fetch, 'gpt-4o', {
+      maxTokens: 256,
+      temperature: 0.3,
+      topP: 0.9,
+      stopSequences: ['END'],
+      seed: 7,
+    }).doGenerate({ prompt });
+
+    expect(requests[0].body).toMatchObject({
+      max_tokens: 256,
+      temperature: 0.3,
+      top_p: 0.9,
+      stop: ['END'],
+      seed: 7,
+    });
+  });
+
+  it('lets per-call options win and warns about the conflict', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    const result = await makeConfiguredModel(fetch, 'gpt-4o', { temperature: 0.3 }).doGenerate({
+      prompt,
+      temperature: 0.9,
+    });
+
+    expect(requests[0].body).toHaveProperty('temperature', 0.9);
+    expect(result.warnings).toContainEqual({
+      type: 'other',
+      message: 'temperature 0.9 from the call overrides the model setting 0.3.',
+    });
+  });
+
+  it('sends reasoningEffort and default headers from settings', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    await makeConfiguredModel(fetch, 'o3-mini', {
+      reasoningEffort: 'high',
+      headers: { 'x-team': 'search', 'x-env': 'prod' },
+    }).doGenerate({ prompt, headers: { 'x-env': 'dev' } });
+
+    expect(requests[0].body).toHaveProperty('reasoning_effort', 'high');
+    expect(requests[0].headers['x-team']).toBe('search');
+    expect(requests[0].headers['x-env']).toBe('dev');
+  });
+
+  it('does not pass the reasoningEffort setting to Claude models', async () => {
+    const { fetch, requests } = fakeFetch({
+      id: 'msg_1',
+      type: 'message',
+      role: 'assistant',
+      content: [{ type: 'text', text: 'hi' }],
+      stop_reason: 'end_turn',
+      usage: { input_tokens: 1, output_tokens: 1 },
+    });
+    const result = await makeConfiguredModel(fetch, 'claude-sonnet-4-6', { reasoningEffort: 'high' })
+      .doGenerate({ prompt });
+
+    expect(requests[0].body).not.toHaveProperty('reasoning_effort');
+    expect(result.warnings).toEqual([]);
+  });
+});
@@ -25,6 +25,26 @@ export function fakeCredential(token = 'fake-token'): TokenCredential {
 // Fake fetch helpers
 // ---------------------------------------------------------------------------
 
+/**
+ * Decodes a captured request body — JSON strings are parsed, multipart
+ * FormData is flattened into a plain object (file fields stay as Blobs,
+ * repeated fields become arrays).
+ */
+function parseRequestBody(body: BodyInit | null | undefined): unknown {
+  if (!body) return undefined;
+  if (body instanceof FormData) {
+    const fields: Record<string, unknown> = {};
+    body.forEach((value, key) => {
+      const existing = fields[key];
+      fields[key] = existing === undefined
+        ? value
+        : [...(Array.isArray(existing) ? existing : [existing]), value];
+    });
+    return fields;
+  }
+  return JSON.parse(body as string);
+}
+
 export type CapturedRequest = {
   url: string;
   method: string;
@@ -44,7 +64,7 @@ export function fakeFetch(
 
   const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     const url   = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
-    const body  = init?.body ? JSON.parse(init.body as string) : undefined;
+    const body  = parseRequestBody(init?.body);
     const hdrs: Record<string, string> = {};
     if (init?.headers) {
       const h = new Headers(init.headers as HeadersInit);
@@ -72,7 +92,7 @@ export function fakeStreamFetch(
 
   const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     const url   = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
-    const body  = init?.body ? JSON.parse(init.body as string) : undefined;
+    const body  = parseRequestBody(init?.body);
     const hdrs: Record<string, string> = {};
     if (init?.headers) {
       const h = new Headers(init.headers as HeadersInit);
@@ -105,7 +125,7 @@ export function fakeErrorFetch(
 
   const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
     const url   = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
-    const body  = init?.body ? JSON.parse(init.body as string) : undefined;
+    const body  = parseRequestBody(init?.body);
     const hdrs: Record<string, string> = {};
     if (init?.headers) {
       const h = new Headers(init.headers as HeadersInit);
@@ -122,6 +142,35 @@ export function fakeErrorFetch(
   return { fetch: fetch as typeof globalThis.fetch, requests };
 }
 
+/**
+ * Creates a fake fetch function that returns raw bytes (e.g. generated audio)
+ * and captures the outbound request for assertions.
+ */
+export function fakeBinaryFetch(
+  bytes: Uint8Array,
+  contentType = 'audio/mpeg',
+): { fetch: typeof globalThis.fetch; requests: CapturedRequest[] } {
+  const requests: CapturedRequest[] = [];
+
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const url   = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url;
+    const body  = parseRequestBody(init?.body);
+    const hdrs: Record<string, string> = {};
+    if (init?.headers) {
+      const h = new Headers(init.headers as HeadersInit);
+      h.forEach((v, k) => { hdrs[k] = v; });
+    }
+    requests.push({ url, method: init?.method ?? 'GET', headers: hdrs, body });
+
+    return new Response(bytes, {
+      status: 200,
+      headers: { 'Content-Type': contentType },
+    });
+  };
+
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
 // ---------------------------------------------------------------------------
 // Response builders
 // ---------------------------------------------------------------------------
@@ -223,3 +272,14 @@ export function toolCallArgsDeltaChunk(index: number, argsChunk: string) {
     }],
   };
 }
+
+/** Minimal valid embeddings response — one entry per vector */
+export function embeddingResponse(vectors: Array<number[] | string>, promptTokens = 8) {
+  return {
+    object: 'list',
+    model: 'text-embedding-test',
+    data: vectors.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+    usage: { prompt_tokens: promptTokens, total_tokens: promptTokens },
+  };
+}
+
@@ -0,0 +1,147 @@
+/**
+ * Unit tests for AzureFoundryImageModel.doGenerate — no real Azure deps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ImageModelV3CallOptions } from '@ai-sdk/provider';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryImageSettings } from '../src/index.js';
+import { fakeCredential, fakeFetch, fakeErrorFetch } from './helpers.js';
+
+const ENDPOINT = 'https://my-resource.cognitiveservices.azure.com';
+
+function makeModel(
+  fetch: typeof globalThis.fetch,
+  modelId = 'dall-e-3',
+  settings: AzureFoundryImageSettings = {},
+  endpoint = ENDPOINT,
+) {
+  return createAzureFoundry({ endpoint, credential: fakeCredential(), fetch }).imageModel(modelId, settings);
+}
+
+function callOptions(overrides: Partial<ImageModelV3CallOptions> = {}): ImageModelV3CallOptions {
+  return {
+    prompt: 'a lighthouse at dusk',
+    n: 1,
+    size: undefined,
+    aspectRatio: undefined,
+    seed: undefined,
+    files: undefined,
+    mask: undefined,
+    providerOptions: {},
+    ...overrides,
+  };
+}
+
+function imageResponse(items: Array<{ b64: string; revisedPrompt?: string }>) {
+  return {
+    created: 1234567890,
+    data: items.map(i => ({ b64_json: i.b64, revised_prompt: i.revisedPrompt })),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// URL routing
+// ---------------------------------------------------------------------------
+
+describe('imageModel — URL routing', () => {
+  it('cognitiveservices endpoint uses the deployment images/generations route', async () => {
+    const { fetch, requests } = fakeFetch(imageResponse([{ b64: 'aGVsbG8=' }]));
+    await makeModel(fetch).doGenerate(callOptions());
+
+    expect(requests[0].url).toBe(
+      'https://my-resource.cognitiveservices.azure.com/openai/deployments/dall-e-3/images/generations?api-version=2024-10-21',
+    );
+    expect(requests[0].body).not.toHaveProperty('model');
+    expect(requests[0].headers['authorization']).toBe('Bearer fake-token');
+  });
+
+  it('services.ai.azure.com endpoint uses /models/images/generations with model in body', async () => {
+    const { fetch, requests } = fakeFetch(imageResponse([{ b64: 'aGVsbG8=' }]));
+    await makeModel(fetch, 'gpt-image-1', {}, 'https://my-resource.services.ai.azure.com/models')
+      .doGenerate(callOptions());
+
+    expect(requests[0].url).toBe('https://my-resource.services.ai.azure.com/models/images/generations');
+    expect(requests[0].body).toHaveProperty('model', 'gpt-image-1');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Request shape
+// ---------------------------------------------------------------------------
+
+describe('imageModel — request shape', () => {
+  it('sends prompt, n, size, quality and b64_json response_format for DALL-E', async () => {
+    const { fetch, requests } = fakeFetch(imageResponse([{ b64: 'aGVsbG8=' }]));
+    await makeModel(fetch, 'dall-e-3', { quality: 'hd', style: 'natural' })
+      .doGenerate(callOptions({ size: '1024x1792' }));
+
+    expect(requests[0].body).toEqual({
+      prompt: 'a lighthouse at dusk',
+      n: 1,
+      size: '1024x1792',
+      quality: 'hd',
+      style: 'natural',
+      response_format: 'b64_json',
+    });
+  });
+
+  it('omits response_format for gpt-image deployments', async () => {
+    const { fetch, requests } = fakeFetch(imageResponse([{ b64: 'aGVsbG8=' }]));
+    await makeModel(fetch, 'gpt-image-1', { quality: 'high' }).doGenerate(callOptions({ n: 2 }));
+
+    expect(requests[0].body).not.toHaveProperty('response_format');
+    expect(requests[0].body).toMatchObject({ n: 2, quality: 'high' });
+  });
+
+  it('limits DALL-E 3 to one image per call', () => {
+    const { fetch } = fakeFetch({});
+    expect(makeModel(fetch, 'dall-e-3').maxImagesPerCall).toBe(1);
+    expect(makeModel(fetch, 'gpt-image-1').maxImagesPerCall).toBe(10);
+  });
+
+  it('warns on unsupported aspectRatio and seed', async () => {
+    const { fetch } = fakeFetch(imageResponse([{ b64: 'aGVsbG8=' }]));
+    const result = await makeModel(fetch).doGenerate(callOptions({ aspectRatio: '16:9', seed: 42 }));
+
+    expect(result.warnings.map(w => (w as any).feature)).toEqual(['aspectRatio', 'seed']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Response parsing
+// ---------------------------------------------------------------------------
+
+describe('imageModel — response parsing', () => {
+  it('returns base64 images and revised prompts in provider metadata', async () => {
+    const { fetch } = fakeFetch(imageResponse([
+      { b64: 'aW1hZ2Ux', revisedPrompt: 'A tall lighthouse at dusk, oil painting' },
+    ]));
+    const result = await makeModel(fetch).doGenerate(callOptions());
+
+    expect(result.images).toEqual(['aW1hZ2Ux']);
+    expect(result.providerMetadata).toEqual({
+      'azure-foundry': { images: [{ revisedPrompt: 'A tall lighthouse at dusk, oil painting' }] },
+    });
+    expect(result.response.modelId).toBe('dall-e-3');
+  });
+
+  it('reports token usage when the deployment returns it', async () => {
+    const { fetch } = fakeFetch({
+      ...imageResponse([{ b64: 'aW1hZ2Ux' }]),
+      usage: { input_tokens: 12, output_tokens: 4160, total_tokens: 4172 },
+    });
+    const result = await makeModel(fetch, 'gpt-image-1').doGenerate(callOptions());
+
+    expect(result.usage).toEqual({ inputTokens: 12, outputTokens: 4160, totalTokens: 4172 });
+  });
+
+  it('throws with the Azure error message on content policy violations', async () => {
+    const { fetch } = fakeErrorFetch(
+      { error: { code: 'content_policy_violation', message: 'Your request was rejected' } },
+      400,
+    );
+
+    await expect(makeModel(fetch).doGenerate(callOptions())).rejects.toThrow('Your request was rejected');
+  });
+});
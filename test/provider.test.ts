@@ -42,9 +42,11 @@ describe('createAzureFoundry — provider construction', () => {
     expect(requests).toHaveLength(0); // no call until doGenerate/doStream
   });
 
-  it('embeddingModel throws NoSuchModelError', () => {
+  it('embeddingModel returns an azure-foundry.embedding model', () => {
     const foundry = createAzureFoundry({ endpoint: 'https://test.cognitiveservices.azure.com', credential: fakeCredential() });
-    expect(() => foundry.embeddingModel('ada')).toThrow();
+    const model = foundry.embeddingModel('text-embedding-3-small');
+    expect(model.modelId).toBe('text-embedding-3-small');
+    expect(model.provider).toBe('azure-foundry.embedding');
   });
 
   it('calling provider as a function returns a model with the correct modelId', () => {
@@ -58,14 +60,16 @@ describe('createAzureFoundry — provider construction', () => {
     expect(foundry('gpt-test').provider).toBe('azure-foundry.chat');
   });
 
-  it('textEmbeddingModel throws NoSuchModelError', () => {
+  it('textEmbeddingModel is an alias of embeddingModel', () => {
     const foundry = createAzureFoundry({ endpoint: 'https://test.cognitiveservices.azure.com', credential: fakeCredential() });
-    expect(() => foundry.textEmbeddingModel('ada')).toThrow();
+    expect(foundry.textEmbeddingModel('ada').provider).toBe('azure-foundry.embedding');
   });
 
-  it('imageModel throws NoSuchModelError', () => {
+  it('imageModel returns an azure-foundry.image model', () => {
     const foundry = createAzureFoundry({ endpoint: 'https://test.cognitiveservices.azure.com', credential: fakeCredential() });
-    expect(() => foundry.imageModel!('dall-e')).toThrow();
+    const model = foundry.imageModel('dall-e-3');
+    expect(model.modelId).toBe('dall-e-3');
+    expect(model.provider).toBe('azure-foundry.image');
   });
 
   it('strips trailing slash from endpoint', async () => {
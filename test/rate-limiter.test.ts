@@ -0,0 +1,326 @@
+/**
+ * Unit tests for the client-side rate limiter — no real Azure dependencies.
+ */
+
+import { APICallError } from '@ai-sdk/provider';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import { OpenAIAdapter } from '../src/adapters/index.js';
+import {
+  AzureFoundryRateLimiter,
+  estimateRequestTokens,
+} from '../src/azure-foundry-rate-limiter.js';
+import {
+  chatResponse,
+  fakeErrorFetch,
+  fakeFetch,
+  fakeStreamFetch,
+  finishChunk,
+  textDeltaChunk,
+} from './helpers.js';
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+  vi.useFakeTimers();
+});
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllEnvs();
+});
+
+const URL_A = 'https://a.example/chat/completions';
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+/** Body whose estimate is exactly `tokens` (no output cap). */
+const bodyOf = (tokens: number) => ({ p: 'x'.repeat(tokens * 4 - 1) });
+
+/** Tracks which acquisitions have resolved, in order. */
+function track<T>(promises: Array<Promise<T>>) {
+  const done: number[] = [];
+  promises.forEach((p, i) => p.then(() => done.push(i), () => {}));
+  return done;
+}
+
+// ---------------------------------------------------------------------------
+// estimateRequestTokens
+// ---------------------------------------------------------------------------
+
+describe('estimateRequestTokens', () => {
+  it('counts ~4 characters per token plus the output cap', () => {
+    const body = { messages: [{ role: 'user', content: 'a'.repeat(100) }], max_tokens: 50 };
+    const estimate = estimateRequestTokens(body);
+    expect(estimate).toBeGreaterThanOrEqual(75);
+    expect(estimate).toBeLessThan(90);
+  });
+
+  it('uses a flat allowance for inline images instead of their base64 length', () => {
+    const image = `data:image/png;base64,${'A'.repeat(400_000)}`;
+    const estimate = estimateRequestTokens({ messages: [{ content: [{ image_url: { url: image } }] }] });
+    expect(estimate).toBeLessThan(1_100);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// AzureFoundryRateLimiter
+// ---------------------------------------------------------------------------
+
+describe('AzureFoundryRateLimiter', () => {
+  it('passes through deployments without a limit', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { requestsPerMinute: 1 } });
+    await expect(limiter.acquire('other', URL_A, {})).resolves.toBeUndefined();
+  });
+
+  it('queues requests over the RPM budget until the window slides', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { requestsPerMinute: 2 } });
+    const done = track([
+      limiter.acquire('gpt-4o', URL_A, {}),
+      limiter.acquire('gpt-4o', URL_A, {}),
+      limiter.acquire('gpt-4o', URL_A, {}),
+    ]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0, 1]);
+
+    await vi.advanceTimersByTimeAsync(59_999);
+    expect(done).toEqual([0, 1]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(done).toEqual([0, 1, 2]);
+  });
+
+  it('serves waiters first-in, first-out under the TPM budget', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { tokensPerMinute: 100 } });
+    const done = track([
+      limiter.acquire('gpt-4o', URL_A, bodyOf(60)),
+      limiter.acquire('gpt-4o', URL_A, bodyOf(60)),
+      // Would fit now, but must not overtake the waiter ahead of it.
+      limiter.acquire('gpt-4o', URL_A, bodyOf(10)),
+    ]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0]);
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(done).toEqual([0, 1, 2]);
+  });
+
+  it('frees budget when actual usage is below the estimate', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { tokensPerMinute: 100 } });
+    const first = await limiter.acquire('gpt-4o', URL_A, bodyOf(90));
+    const done = track([limiter.acquire('gpt-4o', URL_A, bodyOf(50))]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([]);
+
+    first!.reconcile(20);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0]);
+  });
+
+  it('lets an oversized request through on an idle window', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { tokensPerMinute: 10 } });
+    await expect(limiter.acquire('gpt-4o', URL_A, bodyOf(50))).resolves.toBeDefined();
+  });
+
+  it('keeps separate budgets per endpoint URL', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { requestsPerMinute: 1 } });
+    await limiter.acquire('gpt-4o', URL_A, {});
+    await expect(limiter.acquire('gpt-4o', 'https://b.example/chat/completions', {})).resolves.toBeDefined();
+  });
+
+  it('gives back the whole reservation when the request never got a response', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { requestsPerMinute: 1 } });
+    const first = await limiter.acquire('gpt-4o', URL_A, {});
+    const done = track([limiter.acquire('gpt-4o', URL_A, {})]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([]);
+
+    first!.fail(new TypeError('fetch failed'));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0]);
+  });
+
+  it('keeps the request slot but refunds tokens when the deployment answered', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { tokensPerMinute: 100, requestsPerMinute: 2 } });
+    const first = await limiter.acquire('gpt-4o', URL_A, bodyOf(90));
+    const done = track([
+      limiter.acquire('gpt-4o', URL_A, bodyOf(90)),
+      limiter.acquire('gpt-4o', URL_A, {}),
+    ]);
+
+    first!.fail(new APICallError({
+      message: 'server error',
+      url: URL_A,
+      requestBodyValues: {},
+      statusCode: 500,
+    }));
+    await vi.advanceTimersByTimeAsync(0);
+    // tokens came back, but the failed request still counts against RPM
+    expect(done).toEqual([0]);
+  });
+
+  it('settles a lease only once', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { requestsPerMinute: 1 } });
+    const first = await limiter.acquire('gpt-4o', URL_A, {});
+    const done = track([limiter.acquire('gpt-4o', URL_A, {})]);
+
+    first!.reconcile(10);
+    first!.fail(new TypeError('late failure'));
+    await vi.advanceTimersByTimeAsync(0);
+    // the completed request still holds its slot
+    expect(done).toEqual([]);
+  });
+
+  it('rejects and leaves the queue when the caller aborts', async () => {
+    const limiter = new AzureFoundryRateLimiter({ 'gpt-4o': { requestsPerMinute: 1 } });
+    await limiter.acquire('gpt-4o', URL_A, {});
+
+    const controller = new AbortController();
+    const aborted = limiter.acquire('gpt-4o', URL_A, {}, controller.signal);
+    const behind = track([limiter.acquire('gpt-4o', URL_A, {})]);
+    controller.abort(new Error('cancelled'));
+    await expect(aborted).rejects.toThrow('cancelled');
+
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(behind).toEqual([0]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Provider integration
+// ---------------------------------------------------------------------------
+
+describe('createAzureFoundry — rateLimits option', () => {
+  it('holds doGenerate until the budget admits it', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      rateLimits: { 'gpt-test': { requestsPerMinute: 1 } },
+    });
+    const model = foundry('gpt-test');
+
+    await model.doGenerate({ prompt: PROMPT });
+    const second = model.doGenerate({ prompt: PROMPT });
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(requests).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    await second;
+    expect(requests).toHaveLength(2);
+  });
+
+  it('does not spend budget on failed calls or on an open circuit', async () => {
+    const { fetch, requests } = fakeErrorFetch({ error: { message: 'down' } }, 500);
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      rateLimits: { 'gpt-test': { tokensPerMinute: 1_000 } },
+      circuitBreaker: { failureThreshold: 1 },
+    });
+    const model = foundry('gpt-test');
+
+    await expect(model.doGenerate({ prompt: PROMPT, maxOutputTokens: 900 })).rejects.toThrow();
+    await expect(model.doGenerate({ prompt: PROMPT, maxOutputTokens: 900 })).rejects.toThrow(/circuit open/);
+    expect(requests).toHaveLength(1);
+
+    // The 900-token reservation was refunded, so a call fits once the circuit
+    // allows a probe again.
+    await vi.advanceTimersByTimeAsync(30_000);
+    track([model.doGenerate({ prompt: PROMPT, maxOutputTokens: 900 })]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('refunds the reservation when the response cannot be parsed', async () => {
+    const parse = vi.spyOn(OpenAIAdapter.prototype, 'parseResponse').mockImplementationOnce(() => {
+      throw new Error('unexpected response');
+    });
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      rateLimits: { 'gpt-test': { tokensPerMinute: 1_000 } },
+    });
+    const model = foundry('gpt-test');
+
+    await expect(model.doGenerate({ prompt: PROMPT, maxOutputTokens: 900 })).rejects.toThrow('unexpected response');
+    track([model.doGenerate({ prompt: PROMPT, maxOutputTokens: 900 })]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(requests).toHaveLength(2);
+    parse.mockRestore();
+  });
+
+  it('refunds the output allowance of a cancelled stream', async () => {
+    const { fetch } = fakeStreamFetch([textDeltaChunk('hi'), textDeltaChunk(' there')]);
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      rateLimits: { 'gpt-test': { tokensPerMinute: 1_000 } },
+    });
+    const model = foundry('gpt-test');
+
+    const { stream } = await model.doStream({ prompt: PROMPT, maxOutputTokens: 900 });
+    const done = track([model.doStream({ prompt: PROMPT, maxOutputTokens: 900 })]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([]);
+
+    const reader = stream.getReader();
+    await reader.read();
+    await reader.cancel();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0]);
+  });
+
+  it('applies a pooled model ID\'s limit to each backend', async () => {
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      deployments: {
+        'gpt-pool': {
+          backends: [{ endpoint: 'https://a.cognitiveservices.azure.com', deployment: 'gpt-4o-a', apiKey: 'k' }],
+        },
+      },
+      rateLimits: { 'gpt-pool': { requestsPerMinute: 1 } },
+    });
+    const model = foundry('gpt-pool');
+
+    await model.doGenerate({ prompt: PROMPT });
+    const second = track([model.doGenerate({ prompt: PROMPT })]);
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(requests).toHaveLength(1);
+    expect(second).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(59_000);
+    expect(second).toEqual([0]);
+  });
+
+  it('reconciles streamed usage on finish', async () => {
+    const { fetch } = fakeStreamFetch([
+      textDeltaChunk('hi'),
+      finishChunk('stop', { prompt_tokens: 5, completion_tokens: 5 }),
+    ]);
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      fetch,
+      rateLimits: { 'gpt-test': { tokensPerMinute: 1_000 } },
+    });
+    const model = foundry('gpt-test');
+
+    // 900-token output cap reserves most of the budget until usage arrives.
+    const { stream } = await model.doStream({ prompt: PROMPT, maxOutputTokens: 900 });
+    const blocked = model.doStream({ prompt: PROMPT, maxOutputTokens: 900 });
+    const done = track([blocked]);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([]);
+
+    for await (const _ of stream) { /* drain */ }
+    await vi.advanceTimersByTimeAsync(0);
+    expect(done).toEqual([0]);
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Unit tests for Azure response metadata and x-ms-client-request-id — no
+ * real Azure dependencies.
+ */
+
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryResponseMetadata } from '../src/index.js';
+import { parseResponseMetadata } from '../src/azure-foundry-response-metadata.js';
+import {
+  chatResponse,
+  embeddingResponse,
+  fakeFetch,
+  finishChunk,
+  textDeltaChunk,
+} from './helpers.js';
+import type { CapturedRequest } from './helpers.js';
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+});
+afterEach(() => vi.unstubAllEnvs());
+
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/;
+
+const AZURE_HEADERS = {
+  'apim-request-id': '6c1f0a2e-apim',
+  'x-request-id': '3b9d7e10-req',
+  'x-ms-region': 'Sweden Central',
+  'x-ratelimit-remaining-requests': '899',
+  'x-ratelimit-remaining-tokens': '149000',
+  'azureml-model-deployment': 'gpt-4o-2024-08-06',
+};
+
+/** A fetch that answers with `body` plus the Azure headers above. */
+function azureFetch(body: string, contentType = 'application/json') {
+  const requests: CapturedRequest[] = [];
+  const fetch = async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    const headers: Record<string, string> = {};
+    new Headers(init?.headers).forEach((v, k) => { headers[k] = v; });
+    requests.push({ url: String(input), method: init?.method ?? 'GET', headers, body: init?.body });
+    return new Response(body, { headers: { 'Content-Type': contentType, ...AZURE_HEADERS } });
+  };
+  return { fetch: fetch as typeof globalThis.fetch, requests };
+}
+
+function foundryWith(fetch: typeof globalThis.fetch) {
+  return createAzureFoundry({ endpoint: 'https://test.cognitiveservices.azure.com', apiKey: 'k', fetch });
+}
+
+// ---------------------------------------------------------------------------
+// parseResponseMetadata
+// ---------------------------------------------------------------------------
+
+describe('parseResponseMetadata', () => {
+  it('maps Azure headers to typed fields', () => {
+    expect(parseResponseMetadata(AZURE_HEADERS, 'client-1')).toEqual({
+      clientRequestId: 'client-1',
+      apimRequestId: '6c1f0a2e-apim',
+      requestId: '3b9d7e10-req',
+      region: 'Sweden Central',
+      rateLimitRemainingRequests: 899,
+      rateLimitRemainingTokens: 149000,
+      modelDeployment: 'gpt-4o-2024-08-06',
+    } satisfies AzureFoundryResponseMetadata);
+  });
+
+  it('omits missing and non-numeric values', () => {
+    const metadata = parseResponseMetadata({ 'x-ratelimit-remaining-tokens': 'n/a' }, 'client-1');
+    expect(metadata).toEqual({ clientRequestId: 'client-1' });
+    expect(parseResponseMetadata(undefined, 'client-1')).toEqual({ clientRequestId: 'client-1' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Chat models
+// ---------------------------------------------------------------------------
+
+describe('response metadata — chat', () => {
+  it('doGenerate sends a client request id and returns Azure metadata', async () => {
+    const { fetch, requests } = azureFetch(JSON.stringify(chatResponse('hi')));
+    const result = await foundryWith(fetch)('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const clientRequestId = requests[0].headers['x-ms-client-request-id'];
+    expect(clientRequestId).toMatch(UUID);
+    expect(result.providerMetadata?.['azure-foundry']).toMatchObject({
+      clientRequestId,
+      apimRequestId: '6c1f0a2e-apim',
+      requestId: '3b9d7e10-req',
+      region: 'Sweden Central',
+      rateLimitRemainingRequests: 899,
+      rateLimitRemainingTokens: 149000,
+      modelDeployment: 'gpt-4o-2024-08-06',
+    });
+  });
+
+  it('keeps usage details next to the response metadata', async () => {
+    const { fetch } = azureFetch(JSON.stringify(chatResponse('hi')));
+    const result = await foundryWith(fetch)('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(result.providerMetadata?.['azure-foundry']).toHaveProperty('usage');
+    expect(result.providerMetadata?.['azure-foundry']).toHaveProperty('region');
+  });
+
+  it('doStream reports the metadata on the finish part', async () => {
+    const sse = [textDeltaChunk('hi'), finishChunk('stop', { prompt_tokens: 1, completion_tokens: 1 })]
+      .map((chunk) => `data: ${JSON.stringify(chunk)}\n\n`)
+      .join('') + 'data: [DONE]\n\n';
+    const { fetch, requests } = azureFetch(sse, 'text/event-stream');
+    const { stream } = await foundryWith(fetch)('gpt-4o').doStream({ prompt: PROMPT });
+
+    const parts: LanguageModelV3StreamPart[] = [];
+    for await (const part of stream) parts.push(part);
+    const finish = parts.find((p) => p.type === 'finish') as Extract<LanguageModelV3StreamPart, { type: 'finish' }>;
+    expect(finish.providerMetadata?.['azure-foundry']).toMatchObject({
+      clientRequestId: requests[0].headers['x-ms-client-request-id'],
+      apimRequestId: '6c1f0a2e-apim',
+      rateLimitRemainingTokens: 149000,
+    });
+  });
+
+  it('uses a fresh id per call', async () => {
+    const { fetch, requests } = azureFetch(JSON.stringify(chatResponse('hi')));
+    const model = foundryWith(fetch)('gpt-4o');
+    await model.doGenerate({ prompt: PROMPT });
+    await model.doGenerate({ prompt: PROMPT });
+    expect(requests[0].headers['x-ms-client-request-id']).not.toBe(
+      requests[1].headers['x-ms-client-request-id'],
+    );
+  });
+
+  it('keeps a client request id supplied by the caller', async () => {
+    const { fetch, requests } = azureFetch(JSON.stringify(chatResponse('hi')));
+    const result = await foundryWith(fetch)('gpt-4o').doGenerate({
+      prompt: PROMPT,
+      headers: { 'x-ms-client-request-id': 'my-trace-id' },
+    });
+    expect(requests[0].headers['x-ms-client-request-id']).toBe('my-trace-id');
+    expect(result.providerMetadata?.['azure-foundry']).toMatchObject({ clientRequestId: 'my-trace-id' });
+  });
+
+  it('matches a caller-supplied client request id case-insensitively and sends it once', async () => {
+    const { fetch, requests } = azureFetch(JSON.stringify(chatResponse('hi')));
+    const result = await foundryWith(fetch)('gpt-4o').doGenerate({
+      prompt: PROMPT,
+      headers: { 'X-MS-Client-Request-Id': 'my-trace-id' },
+    });
+    // Headers joins repeated names with ", ", so an exact match rules out a second value.
+    expect(requests[0].headers['x-ms-client-request-id']).toBe('my-trace-id');
+    expect(result.providerMetadata?.['azure-foundry']).toMatchObject({ clientRequestId: 'my-trace-id' });
+  });
+
+  it('matches a mixed-case client request id on embedding requests', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[0.1, 0.2]]));
+    await foundryWith(fetch).embeddingModel('text-embedding-3-small').doEmbed({
+      values: ['a'],
+      headers: { 'X-Ms-Client-Request-Id': 'embed-trace' },
+    });
+    expect(requests[0].headers['x-ms-client-request-id']).toBe('embed-trace');
+  });
+
+  it('sends a client request id from the provider or model headers once', async () => {
+    const { fetch, requests } = azureFetch(JSON.stringify(chatResponse('hi')));
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      headers: { 'X-MS-Client-Request-Id': 'provider-trace' },
+      fetch,
+    });
+    const result = await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(requests[0].headers['x-ms-client-request-id']).toBe('provider-trace');
+    expect(result.providerMetadata?.['azure-foundry']).toMatchObject({ clientRequestId: 'provider-trace' });
+
+    // the more specific layer wins, whatever its casing
+    const model = foundry('gpt-4o', { headers: { 'x-ms-client-request-id': 'model-trace' } });
+    await model.doGenerate({ prompt: PROMPT });
+    expect(requests[1].headers['x-ms-client-request-id']).toBe('model-trace');
+    await model.doGenerate({ prompt: PROMPT, headers: { 'X-Ms-Client-Request-Id': 'call-trace' } });
+    expect(requests[2].headers['x-ms-client-request-id']).toBe('call-trace');
+  });
+
+  it('sends a client request id from the provider headers once on embedding requests', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[0.1, 0.2]]));
+    await createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      apiKey: 'k',
+      headers: { 'X-MS-Client-Request-Id': 'provider-trace' },
+      fetch,
+    })
+      .embeddingModel('text-embedding-3-small')
+      .doEmbed({ values: ['a'] });
+    expect(requests[0].headers['x-ms-client-request-id']).toBe('provider-trace');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Other models
+// ---------------------------------------------------------------------------
+
+describe('x-ms-client-request-id — other models', () => {
+  it('is sent on embedding requests', async () => {
+    const { fetch, requests } = fakeFetch(embeddingResponse([[0.1, 0.2]]));
+    await foundryWith(fetch).embeddingModel('text-embedding-3-small').doEmbed({ values: ['a'] });
+    expect(requests[0].headers['x-ms-client-request-id']).toMatch(UUID);
+  });
+});
@@ -0,0 +1,213 @@
+/**
+ * Unit tests for the retry policy — no real Azure dependencies.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import { createRetryFetch, getRetryAfterMs } from '../src/azure-foundry-retry.js';
+import { chatResponse, fakeCredential, textDeltaChunk } from './helpers.js';
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+});
+afterEach(() => vi.unstubAllEnvs());
+
+/**
+ * A fetch that plays back the given responses in order and counts calls.
+ * Each entry is either a Response factory or an Error to throw.
+ */
+function sequenceFetch(steps: Array<(() => Response) | Error>) {
+  let calls = 0;
+  const fetch = async (): Promise<Response> => {
+    const step = steps[Math.min(calls++, steps.length - 1)];
+    if (step instanceof Error) throw step;
+    return step();
+  };
+  return { fetch: fetch as typeof globalThis.fetch, calls: () => calls };
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) => () =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const throttled = (headers: Record<string, string> = {}) =>
+  json({ error: { code: '429', message: 'Rate limit exceeded' } }, 429, headers);
+
+const fast = { initialDelayMs: 0, jitter: false };
+
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+// ---------------------------------------------------------------------------
+// getRetryAfterMs
+// ---------------------------------------------------------------------------
+
+describe('getRetryAfterMs', () => {
+  it('prefers retry-after-ms over Retry-After', () => {
+    const headers = new Headers({ 'retry-after-ms': '1500', 'retry-after': '10' });
+    expect(getRetryAfterMs(headers)).toBe(1500);
+  });
+
+  it('reads Retry-After in seconds', () => {
+    expect(getRetryAfterMs(new Headers({ 'retry-after': '3' }))).toBe(3000);
+  });
+
+  it('reads Retry-After as an HTTP date', () => {
+    const now = Date.parse('2025-01-01T00:00:00Z');
+    const headers = new Headers({ 'retry-after': 'Wed, 01 Jan 2025 00:00:05 GMT' });
+    expect(getRetryAfterMs(headers, now)).toBe(5000);
+  });
+
+  it('uses x-ratelimit-reset-* only when that quota is exhausted', () => {
+    expect(getRetryAfterMs(new Headers({
+      'x-ratelimit-remaining-tokens': '0',
+      'x-ratelimit-reset-tokens': '1m30s',
+    }))).toBe(90_000);
+    expect(getRetryAfterMs(new Headers({
+      'x-ratelimit-remaining-requests': '0',
+      'x-ratelimit-reset-requests': '250ms',
+    }))).toBe(250);
+    expect(getRetryAfterMs(new Headers({
+      'x-ratelimit-remaining-tokens': '500',
+      'x-ratelimit-reset-tokens': '2',
+    }))).toBeUndefined();
+  });
+
+  it('returns undefined without a usable hint', () => {
+    expect(getRetryAfterMs(new Headers({ 'retry-after': 'soon' }))).toBeUndefined();
+    expect(getRetryAfterMs(new Headers())).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// createRetryFetch
+// ---------------------------------------------------------------------------
+
+describe('createRetryFetch', () => {
+  it('retries 429 and 5xx until a success', async () => {
+    const seq = sequenceFetch([throttled(), json({}, 503), json({ ok: true })]);
+    const response = await createRetryFetch(fast, seq.fetch)('https://x');
+    expect(response.status).toBe(200);
+    expect(seq.calls()).toBe(3);
+  });
+
+  it('does not retry non-retryable statuses', async () => {
+    const seq = sequenceFetch([json({}, 400), json({ ok: true })]);
+    const response = await createRetryFetch(fast, seq.fetch)('https://x');
+    expect(response.status).toBe(400);
+    expect(seq.calls()).toBe(1);
+  });
+
+  it('returns the last failure after maxAttempts', async () => {
+    const seq = sequenceFetch([throttled()]);
+    const response = await createRetryFetch({ ...fast, maxAttempts: 3 }, seq.fetch)('https://x');
+    expect(response.status).toBe(429);
+    expect(seq.calls()).toBe(3);
+  });
+
+  it('retries network errors and rethrows on the last attempt', async () => {
+    const seq = sequenceFetch([new TypeError('fetch failed')]);
+    await expect(
+      createRetryFetch({ ...fast, maxAttempts: 2 }, seq.fetch)('https://x'),
+    ).rejects.toThrow('fetch failed');
+    expect(seq.calls()).toBe(2);
+  });
+
+  it('respects a custom retryOnStatus list', async () => {
+    const seq = sequenceFetch([json({}, 500), json({ ok: true })]);
+    const response = await createRetryFetch({ ...fast, retryOnStatus: [429] }, seq.fetch)('https://x');
+    expect(response.status).toBe(500);
+    expect(seq.calls()).toBe(1);
+  });
+
+  it('waits for the server-requested delay', async () => {
+    vi.useFakeTimers();
+    try {
+      const seq = sequenceFetch([throttled({ 'retry-after-ms': '2000' }), json({ ok: true })]);
+      const pending = createRetryFetch(fast, seq.fetch)('https://x');
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(seq.calls()).toBe(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect((await pending).status).toBe(200);
+      expect(seq.calls()).toBe(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('gives up when the server asks to wait longer than maxRetryAfterMs', async () => {
+    const seq = sequenceFetch([throttled({ 'retry-after': '120' }), json({ ok: true })]);
+    const response = await createRetryFetch(fast, seq.fetch)('https://x');
+    expect(response.status).toBe(429);
+    expect(seq.calls()).toBe(1);
+  });
+
+  it('stops waiting when the abort signal fires', async () => {
+    const seq = sequenceFetch([throttled({ 'retry-after': '30' }), json({ ok: true })]);
+    const controller = new AbortController();
+    const pending = createRetryFetch(fast, seq.fetch)('https://x', { signal: controller.signal });
+    controller.abort();
+    await expect(pending).rejects.toThrow();
+    expect(seq.calls()).toBe(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Provider integration
+// ---------------------------------------------------------------------------
+
+describe('createAzureFoundry — retry option', () => {
+  it('is off by default', async () => {
+    const seq = sequenceFetch([throttled(), json(chatResponse('hi'))]);
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      credential: fakeCredential(),
+      fetch: seq.fetch,
+    });
+    await expect(foundry('gpt-test').doGenerate({ prompt: PROMPT })).rejects.toThrow(/Rate limit/);
+    expect(seq.calls()).toBe(1);
+  });
+
+  it('retries doGenerate when enabled', async () => {
+    const seq = sequenceFetch([throttled({ 'retry-after-ms': '0' }), json(chatResponse('hi'))]);
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      credential: fakeCredential(),
+      fetch: seq.fetch,
+      retry: fast,
+    });
+    const result = await foundry('gpt-test').doGenerate({ prompt: PROMPT });
+    expect(result.content).toEqual([{ type: 'text', text: 'hi' }]);
+    expect(seq.calls()).toBe(2);
+  });
+
+  it('does not retry once a stream has started', async () => {
+    let calls = 0;
+    const fetch = async (): Promise<Response> => {
+      calls++;
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(textDeltaChunk('Hel'))}\n\n`));
+          controller.error(new TypeError('socket hang up'));
+        },
+      });
+      return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+    };
+    const foundry = createAzureFoundry({
+      endpoint: 'https://test.cognitiveservices.azure.com',
+      credential: fakeCredential(),
+      fetch: fetch as typeof globalThis.fetch,
+      retry: fast,
+    });
+
+    const { stream } = await foundry('gpt-test').doStream({ prompt: PROMPT });
+    await expect((async () => {
+      for await (const _ of stream) { /* drain */ }
+    })()).rejects.toThrow('socket hang up');
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Unit tests for AzureFoundrySpeechModel.doGenerate — no real Azure deps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundrySpeechSettings } from '../src/index.js';
+import { fakeCredential, fakeBinaryFetch, fakeErrorFetch } from './helpers.js';
+
+const ENDPOINT = 'https://my-resource.cognitiveservices.azure.com';
+
+const MP3 = new Uint8Array([0x49, 0x44, 0x33, 0x04]);
+
+function makeModel(
+  fetch: typeof globalThis.fetch,
+  modelId = 'gpt-4o-mini-tts',
+  settings: AzureFoundrySpeechSettings = {},
+  endpoint = ENDPOINT,
+) {
+  return createAzureFoundry({ endpoint, credential: fakeCredential(), fetch }).speechModel(modelId, settings);
+}
+
+// ---------------------------------------------------------------------------
+// URL routing
+// ---------------------------------------------------------------------------
+
+describe('speechModel — URL routing', () => {
+  it('cognitiveservices endpoint uses the deployment audio/speech route', async () => {
+    const { fetch, requests } = fakeBinaryFetch(MP3);
+    await makeModel(fetch).doGenerate({ text: 'hello' });
+
+    expect(requests[0].url).toBe(
+      'https://my-resource.cognitiveservices.azure.com/openai/deployments/gpt-4o-mini-tts/audio/speech?api-version=2024-10-21',
+    );
+    expect(requests[0].body).not.toHaveProperty('model');
+    expect(requests[0].headers['authorization']).toBe('Bearer fake-token');
+  });
+
+  it('services.ai.azure.com endpoint uses /models/audio/speech with model in body', async () => {
+    const { fetch, requests } = fakeBinaryFetch(MP3);
+    await makeModel(fetch, 'tts', {}, 'https://my-resource.services.ai.azure.com/models')
+      .doGenerate({ text: 'hello' });
+
+    expect(requests[0].url).toBe('https://my-resource.services.ai.azure.com/models/audio/speech');
+    expect(requests[0].body).toHaveProperty('model', 'tts');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Request shape
+// ---------------------------------------------------------------------------
+
+describe('speechModel — request shape', () => {
+  it('defaults to the alloy voice and mp3', async () => {
+    const { fetch, requests } = fakeBinaryFetch(MP3);
+    await makeModel(fetch).doGenerate({ text: 'hello' });
+
+    expect(requests[0].body).toEqual({ input: 'hello', voice: 'alloy', response_format: 'mp3' });
+  });
+
+  it('call options override model settings', async () => {
+    const { fetch, requests } = fakeBinaryFetch(MP3);
+    await makeModel(fetch, 'gpt-4o-mini-tts', { voice: 'nova', outputFormat: 'wav', speed: 1.5 })
+      .doGenerate({ text: 'hello', voice: 'echo', speed: 0.75, instructions: 'Speak calmly.' });
+
+    expect(requests[0].body).toEqual({
+      input: 'hello',
+      voice: 'echo',
+      response_format: 'wav',
+      speed: 0.75,
+      instructions: 'Speak calmly.',
+    });
+  });
+
+  it('falls back to mp3 with a warning for unsupported formats', async () => {
+    const { fetch, requests } = fakeBinaryFetch(MP3);
+    const result = await makeModel(fetch).doGenerate({ text: 'hello', outputFormat: 'ogg' });
+
+    expect(requests[0].body).toHaveProperty('response_format', 'mp3');
+    expect(result.warnings).toMatchObject([{ type: 'unsupported', feature: 'outputFormat' }]);
+  });
+
+  it('drops instructions with a warning for tts / tts-hd deployments', async () => {
+    const { fetch, requests } = fakeBinaryFetch(MP3);
+    const result = await makeModel(fetch, 'tts-hd').doGenerate({ text: 'hello', instructions: 'Whisper.' });
+
+    expect(requests[0].body).not.toHaveProperty('instructions');
+    expect(result.warnings).toMatchObject([{ type: 'unsupported', feature: 'instructions' }]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Response parsing
+// ---------------------------------------------------------------------------
+
+describe('speechModel — response parsing', () => {
+  it('returns the audio bytes', async () => {
+    const { fetch } = fakeBinaryFetch(MP3);
+    const result = await makeModel(fetch).doGenerate({ text: 'hello' });
+
+    expect(result.audio).toEqual(MP3);
+    expect(result.response.modelId).toBe('gpt-4o-mini-tts');
+  });
+
+  it('throws with the Azure error message on failure', async () => {
+    const { fetch } = fakeErrorFetch({ error: { message: 'Input too long' } }, 400);
+
+    await expect(makeModel(fetch).doGenerate({ text: 'hello' })).rejects.toThrow('Input too long');
+  });
+});
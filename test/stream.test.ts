@@ -51,6 +51,32 @@ describe('doStream — basic text streaming', () => {
     expect(requests[0].body).toHaveProperty('stream', true);
   });
 
+  it('requests usage via stream_options by default', async () => {
+    const { fetch, requests } = fakeStreamFetch([textDeltaChunk('hi'), finishChunk()]);
+    await collectStream(makeModel(fetch));
+    expect(requests[0].body).toHaveProperty('stream_options', { include_usage: true });
+  });
+
+  it('applies per-model settings as defaults', async () => {
+    const { fetch, requests } = fakeStreamFetch([textDeltaChunk('hi'), finishChunk()]);
+    const model = createAzureFoundry({ endpoint: ENDPOINT, credential: fakeCredential(), fetch })(
+      'gpt-test',
+      { maxTokens: 64, temperature: 0.5 },
+    );
+    await collectStream(model);
+    expect(requests[0].body).toMatchObject({ max_completion_tokens: 64, temperature: 0.5 });
+  });
+
+  it('omits stream_options when includeUsage is false', async () => {
+    const { fetch, requests } = fakeStreamFetch([textDeltaChunk('hi'), finishChunk()]);
+    const model = createAzureFoundry({ endpoint: ENDPOINT, credential: fakeCredential(), fetch })(
+      'gpt-test',
+      { includeUsage: false },
+    );
+    await collectStream(model);
+    expect(requests[0].body).not.toHaveProperty('stream_options');
+  });
+
   it('emits text-delta parts for each content chunk', async () => {
     const { fetch } = fakeStreamFetch([
       textDeltaChunk('Hello'),
@@ -103,6 +129,41 @@ describe('doStream — basic text streaming', () => {
     });
   });
 
+  it('emits usage details and raw usage metadata in the finish part', async () => {
+    const usage = {
+      prompt_tokens: 8,
+      completion_tokens: 12,
+      prompt_tokens_details: { cached_tokens: 4 },
+      completion_tokens_details: { reasoning_tokens: 5 },
+    };
+    const { fetch } = fakeStreamFetch([textDeltaChunk('hi'), { ...finishChunk('stop'), usage }]);
+    const parts = await collectStream(makeModel(fetch));
+    const finish = parts.find(p => p.type === 'finish') as any;
+
+    expect(finish.usage).toEqual({
+      inputTokens: { total: 8, noCache: 4, cacheRead: 4, cacheWrite: undefined },
+      outputTokens: { total: 12, text: 7, reasoning: 5 },
+    });
+    expect(finish.providerMetadata).toEqual({
+      'azure-foundry': { usage, clientRequestId: expect.any(String) },
+    });
+  });
+
+  it('reads usage from the trailing chunk with empty choices', async () => {
+    const { fetch } = fakeStreamFetch([
+      textDeltaChunk('hi'),
+      finishChunk('stop'),
+      { id: 'chatcmpl-test', model: 'gpt-test', choices: [], usage: { prompt_tokens: 8, completion_tokens: 2 } },
+    ]);
+    const parts = await collectStream(makeModel(fetch));
+    const finish = parts.find(p => p.type === 'finish') as any;
+
+    expect(parts.filter(p => p.type === 'finish')).toHaveLength(1);
+    expect(finish.finishReason).toMatchObject({ unified: 'stop' });
+    expect(finish.usage.inputTokens.total).toBe(8);
+    expect(finish.usage.outputTokens.total).toBe(2);
+  });
+
   it('finish usage defaults to undefined when not in stream', async () => {
     const { fetch } = fakeStreamFetch([textDeltaChunk('hi'), finishChunk('stop')]);
     const parts = await collectStream(makeModel(fetch));
@@ -288,3 +349,76 @@ describe('doStream — non-OpenAI model compatibility', () => {
     expect(deltas).toContain('The answer is 42.');
   });
 });
+
+// ---------------------------------------------------------------------------
+// Reasoning (DeepSeek-R1 / Kimi-K2.5)
+// ---------------------------------------------------------------------------
+
+function reasoningDeltaChunk(reasoning: string) {
+  return {
+    id: 'chatcmpl-test',
+    model: 'DeepSeek-R1',
+    choices: [{
+      index: 0,
+      delta: { role: null, content: null, reasoning_content: reasoning },
+      finish_reason: null,
+    }],
+  };
+}
+
+describe('doStream — reasoning parts', () => {
+  it('emits reasoning-start/delta/end for reasoning_content before the answer text', async () => {
+    const { fetch } = fakeStreamFetch([
+      reasoningDeltaChunk('Let me '),
+      reasoningDeltaChunk('think.'),
+      textDeltaChunk('42'),
+      finishChunk(),
+    ]);
+    const parts = await collectStream(makeModel(fetch, 'DeepSeek-R1'));
+    const types = parts.filter(p => p.type !== 'stream-start').map(p => p.type);
+
+    expect(types).toEqual([
+      'reasoning-start', 'reasoning-delta', 'reasoning-delta', 'reasoning-end',
+      'text-start', 'text-delta', 'text-end', 'finish',
+    ]);
+    const reasoning = parts.filter(p => p.type === 'reasoning-delta').map(p => (p as any).delta).join('');
+    expect(reasoning).toBe('Let me think.');
+  });
+
+  it('closes reasoning in flush when the stream ends mid-thought', async () => {
+    const { fetch } = fakeStreamFetch([reasoningDeltaChunk('hmm'), finishChunk('length')]);
+    const parts = await collectStream(makeModel(fetch, 'DeepSeek-R1'));
+
+    expect(parts.some(p => p.type === 'reasoning-end')).toBe(true);
+  });
+
+  it('splits inline <think> tags out of content, even across chunk boundaries', async () => {
+    const { fetch } = fakeStreamFetch([
+      textDeltaChunk('<thi'),
+      textDeltaChunk('nk>Step one. '),
+      textDeltaChunk('Step two.</th'),
+      textDeltaChunk('ink>\n\n'),
+      textDeltaChunk('The answer is 4.'),
+      finishChunk(),
+    ]);
+    const parts = await collectStream(makeModel(fetch, 'DeepSeek-R1'));
+    const reasoning = parts.filter(p => p.type === 'reasoning-delta').map(p => (p as any).delta).join('');
+    const text = parts.filter(p => p.type === 'text-delta').map(p => (p as any).delta).join('');
+
+    expect(reasoning).toBe('Step one. Step two.');
+    expect(text).toBe('The answer is 4.');
+  });
+
+  it('leaves content without a leading <think> tag as plain text', async () => {
+    const { fetch } = fakeStreamFetch([
+      textDeltaChunk('Use '),
+      textDeltaChunk('<think> tags sparingly'),
+      finishChunk(),
+    ]);
+    const parts = await collectStream(makeModel(fetch, 'DeepSeek-R1'));
+    const text = parts.filter(p => p.type === 'text-delta').map(p => (p as any).delta).join('');
+
+    expect(text).toBe('Use <think> tags sparingly');
+    expect(parts.some(p => p.type === 'reasoning-start')).toBe(false);
+  });
+});
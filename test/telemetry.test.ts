@@ -0,0 +1,382 @@
+/**
+ * Unit tests for OpenTelemetry instrumentation — no real Azure dependencies.
+ * Spans and histograms are recorded by an in-memory tracer and meter.
+ */
+
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider';
+import { propagation, trace } from '@opentelemetry/api';
+import type {
+  Attributes,
+  AttributeValue,
+  Meter,
+  SpanOptions,
+  SpanStatus,
+  TextMapPropagator,
+  Tracer,
+} from '@opentelemetry/api';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import { OpenAIAdapter } from '../src/adapters/index.js';
+import type { AzureFoundryProviderSettings } from '../src/index.js';
+import { chatResponse, fakeFetch, fakeStreamFetch, finishChunk, textDeltaChunk } from './helpers.js';
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+});
+afterEach(() => {
+  propagation.disable();
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+});
+
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+// ---------------------------------------------------------------------------
+// In-memory tracer and meter
+// ---------------------------------------------------------------------------
+
+type RecordedSpan = {
+  name: string;
+  kind?: number;
+  attributes: Attributes;
+  events: Array<{ name: string; attributes?: Attributes }>;
+  status?: SpanStatus;
+  exceptions: unknown[];
+  ended: boolean;
+};
+
+function memoryTelemetry() {
+  const spans: RecordedSpan[] = [];
+  const measurements: Array<{ name: string; value: number; attributes?: Attributes }> = [];
+
+  const tracer = {
+    startSpan(name: string, options: SpanOptions = {}) {
+      const recorded: RecordedSpan = {
+        name,
+        kind: options.kind,
+        attributes: { ...options.attributes },
+        events: [],
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(recorded);
+      const spanId = String(spans.length).padStart(16, '0');
+      const span = {
+        spanContext: () => ({ traceId: '0af7651916cd43dd8448eb211c80319c', spanId, traceFlags: 1 }),
+        setAttribute: (key: string, value: AttributeValue) => {
+          recorded.attributes[key] = value;
+          return span;
+        },
+        setAttributes: (attributes: Attributes) => {
+          Object.assign(recorded.attributes, attributes);
+          return span;
+        },
+        addEvent: (eventName: string, attributes?: Attributes) => {
+          recorded.events.push({ name: eventName, attributes });
+          return span;
+        },
+        addLink: () => span,
+        addLinks: () => span,
+        setStatus: (status: SpanStatus) => {
+          recorded.status = status;
+          return span;
+        },
+        updateName: () => span,
+        end: () => {
+          recorded.ended = true;
+        },
+        isRecording: () => !recorded.ended,
+        recordException: (exception: unknown) => {
+          recorded.exceptions.push(exception);
+        },
+      };
+      return span;
+    },
+  } as unknown as Tracer;
+
+  const meter = {
+    createHistogram: (name: string) => ({
+      record: (value: number, attributes?: Attributes) => measurements.push({ name, value, attributes }),
+    }),
+  } as unknown as Meter;
+
+  return { tracer, meter, spans, measurements };
+}
+
+/** Writes a W3C traceparent for the active span, like the SDK's propagator. */
+const traceparentPropagator: TextMapPropagator = {
+  inject(context, carrier, setter) {
+    const spanContext = trace.getSpanContext(context);
+    if (spanContext) {
+      setter.set(carrier, 'traceparent', `00-${spanContext.traceId}-${spanContext.spanId}-01`);
+    }
+  },
+  extract: (context) => context,
+  fields: () => ['traceparent'],
+};
+
+function foundryWith(fetch: typeof globalThis.fetch, settings: Partial<AzureFoundryProviderSettings> = {}) {
+  return createAzureFoundry({
+    endpoint: 'https://test.cognitiveservices.azure.com',
+    apiKey: 'k',
+    fetch,
+    ...settings,
+  });
+}
+
+async function collect(stream: ReadableStream<LanguageModelV3StreamPart>) {
+  const parts: LanguageModelV3StreamPart[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts;
+}
+
+// ---------------------------------------------------------------------------
+// doGenerate
+// ---------------------------------------------------------------------------
+
+describe('telemetry — doGenerate', () => {
+  it('records a chat span with request, response and usage attributes', async () => {
+    const otel = memoryTelemetry();
+    const fetch = (async () =>
+      new Response(JSON.stringify(chatResponse('hi', { promptTokens: 12, completionTokens: 34 })), {
+        headers: {
+          'Content-Type': 'application/json',
+          'x-request-id': 'req-1',
+          'apim-request-id': 'apim-1',
+        },
+      })) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT, maxOutputTokens: 100, temperature: 0.2 });
+
+    expect(otel.spans).toHaveLength(1);
+    const [span] = otel.spans;
+    expect(span.name).toBe('chat gpt-4o');
+    expect(span.kind).toBe(2); // SpanKind.CLIENT
+    expect(span.ended).toBe(true);
+    expect(span.attributes).toMatchObject({
+      'gen_ai.operation.name': 'chat',
+      'gen_ai.system': 'az.ai.openai',
+      'gen_ai.request.model': 'gpt-4o',
+      'gen_ai.request.max_tokens': 100,
+      'gen_ai.request.temperature': 0.2,
+      'gen_ai.usage.input_tokens': 12,
+      'gen_ai.usage.output_tokens': 34,
+      'gen_ai.response.finish_reasons': ['stop'],
+      'server.address': 'test.cognitiveservices.azure.com',
+      'server.port': 443,
+      'azure_foundry.adapter_type': 'openai-legacy',
+      'azure_foundry.endpoint_style': 'cognitive-services',
+      'azure_foundry.streaming': false,
+      'azure_foundry.request_id': 'req-1',
+      'azure_foundry.apim_request_id': 'apim-1',
+    });
+    expect(span.attributes['url.full']).toContain('/openai/deployments/gpt-4o/chat/completions');
+  });
+
+  it('records duration and token histograms', async () => {
+    const otel = memoryTelemetry();
+    const { fetch } = fakeFetch(chatResponse('hi', { promptTokens: 5, completionTokens: 7 }));
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const tokens = otel.measurements.filter((m) => m.name === 'gen_ai.client.token.usage');
+    expect(tokens.map((m) => [m.attributes?.['gen_ai.token.type'], m.value])).toEqual([
+      ['input', 5],
+      ['output', 7],
+    ]);
+    const [duration] = otel.measurements.filter((m) => m.name === 'gen_ai.client.operation.duration');
+    expect(duration.value).toBeGreaterThanOrEqual(0);
+    expect(duration.attributes).toMatchObject({ 'gen_ai.request.model': 'gpt-4o', 'server.port': 443 });
+  });
+
+  it('marks the span as failed with the status code as error.type', async () => {
+    const otel = memoryTelemetry();
+    const { fetch } = fakeFetch({ error: { code: 'BadRequest', message: 'nope' } }, 400);
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    await expect(foundry('gpt-4o').doGenerate({ prompt: PROMPT })).rejects.toThrow('nope');
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.status?.code).toBe(2); // SpanStatusCode.ERROR
+    expect(span.attributes['error.type']).toBe('400');
+    expect(span.exceptions).toHaveLength(1);
+    const [duration] = otel.measurements;
+    expect(duration.attributes?.['error.type']).toBe('400');
+  });
+
+  it('fails the span when the response cannot be parsed', async () => {
+    vi.spyOn(OpenAIAdapter.prototype, 'parseResponse').mockImplementationOnce(() => {
+      throw new TypeError('unexpected response');
+    });
+    const otel = memoryTelemetry();
+    const { fetch } = fakeFetch(chatResponse('hi'));
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    await expect(foundry('gpt-4o').doGenerate({ prompt: PROMPT })).rejects.toThrow('unexpected response');
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.attributes['error.type']).toBe('TypeError');
+  });
+
+  it('counts retries on the span', async () => {
+    const otel = memoryTelemetry();
+    let calls = 0;
+    const fetch = (async () =>
+      ++calls < 3
+        ? new Response('{}', { status: 429, headers: { 'retry-after-ms': '0' } })
+        : new Response(JSON.stringify(chatResponse('ok')), {
+            headers: { 'Content-Type': 'application/json' },
+          })) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { telemetry: otel, retry: { initialDelayMs: 0 } });
+
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+
+    const [span] = otel.spans;
+    expect(span.attributes['azure_foundry.retry_count']).toBe(2);
+    expect(span.events.map((e) => e.attributes?.['http.response.status_code'])).toEqual([429, 429]);
+  });
+
+  it('sends the span context as a traceparent header', async () => {
+    propagation.setGlobalPropagator(traceparentPropagator);
+    const otel = memoryTelemetry();
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(requests[0].headers['traceparent']).toBe(
+      '00-0af7651916cd43dd8448eb211c80319c-0000000000000001-01',
+    );
+  });
+
+  it('does not propagate context when propagateContext is false', async () => {
+    propagation.setGlobalPropagator(traceparentPropagator);
+    const otel = memoryTelemetry();
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    const foundry = foundryWith(fetch, { telemetry: { ...otel, propagateContext: false } });
+
+    await foundry('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(requests[0].headers['traceparent']).toBeUndefined();
+  });
+
+  it('records nothing when telemetry is off', async () => {
+    propagation.setGlobalPropagator(traceparentPropagator);
+    const { fetch, requests } = fakeFetch(chatResponse('hi'));
+    await foundryWith(fetch)('gpt-4o').doGenerate({ prompt: PROMPT });
+    expect(requests[0].headers['traceparent']).toBeUndefined();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// doStream
+// ---------------------------------------------------------------------------
+
+describe('telemetry — doStream', () => {
+  it('ends the span on finish with usage and time to first token', async () => {
+    const otel = memoryTelemetry();
+    const { fetch } = fakeStreamFetch([
+      textDeltaChunk('Hel'),
+      textDeltaChunk('lo'),
+      finishChunk('stop', { prompt_tokens: 3, completion_tokens: 2 }),
+    ]);
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    const { stream } = await foundry('gpt-4o').doStream({ prompt: PROMPT });
+    expect(otel.spans[0].ended).toBe(false);
+    await collect(stream);
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.attributes).toMatchObject({
+      'azure_foundry.streaming': true,
+      'gen_ai.usage.input_tokens': 3,
+      'gen_ai.usage.output_tokens': 2,
+      'gen_ai.response.finish_reasons': ['stop'],
+    });
+    expect(span.attributes['azure_foundry.time_to_first_token_ms']).toBeGreaterThanOrEqual(0);
+  });
+
+  it('ends the span and records the duration when the consumer cancels', async () => {
+    const otel = memoryTelemetry();
+    const { fetch } = fakeStreamFetch([textDeltaChunk('Hel'), textDeltaChunk('lo')]);
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    const { stream } = await foundry('gpt-4o').doStream({ prompt: PROMPT });
+    for await (const part of stream) {
+      if (part.type === 'text-delta') break;
+    }
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.status).toBeUndefined();
+    expect(span.attributes['azure_foundry.cancelled']).toBe(true);
+    expect(otel.measurements).toContainEqual(expect.objectContaining({
+      name: 'gen_ai.client.operation.duration',
+      attributes: expect.objectContaining({ 'azure_foundry.cancelled': true }),
+    }));
+  });
+
+  it('fails the span when a chunk cannot be parsed', async () => {
+    vi.spyOn(OpenAIAdapter.prototype, 'parseChunk').mockImplementationOnce(() => {
+      throw new TypeError('unexpected chunk');
+    });
+    const otel = memoryTelemetry();
+    const { fetch } = fakeStreamFetch([textDeltaChunk('Hel'), textDeltaChunk('lo')]);
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    const { stream } = await foundry('gpt-4o').doStream({ prompt: PROMPT });
+    await expect(collect(stream)).rejects.toThrow('unexpected chunk');
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.attributes['error.type']).toBe('TypeError');
+  });
+
+  it('fails the span when the response body errors mid-stream', async () => {
+    const otel = memoryTelemetry();
+    const fetch = (async () => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(textDeltaChunk('Hel'))}\n\n`));
+          setTimeout(() => controller.error(new Error('connection reset')), 5);
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    }) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { telemetry: otel });
+
+    const { stream } = await foundry('gpt-4o').doStream({ prompt: PROMPT });
+    await expect(collect(stream)).rejects.toThrow('connection reset');
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.exceptions).toHaveLength(1);
+  });
+
+  it('fails the span when a stream-idle timeout ends the stream', async () => {
+    const otel = memoryTelemetry();
+    const fetch = (async () => {
+      const encoder = new TextEncoder();
+      const body = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(textDeltaChunk('Hel'))}\n\n`));
+        },
+      });
+      return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+    }) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { telemetry: otel, streamIdleTimeoutMs: 20 });
+
+    const { stream } = await foundry('gpt-4o').doStream({ prompt: PROMPT });
+    await collect(stream);
+
+    const [span] = otel.spans;
+    expect(span.ended).toBe(true);
+    expect(span.attributes['error.type']).toBe('AzureFoundryTimeoutError');
+  });
+});
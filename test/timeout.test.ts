@@ -0,0 +1,208 @@
+/**
+ * Unit tests for request / first-chunk / idle-stream timeouts — no real Azure
+ * dependencies.
+ */
+
+import type { LanguageModelV3StreamPart } from '@ai-sdk/provider';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AzureFoundryTimeoutError, createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryProviderSettings } from '../src/index.js';
+import { chatResponse, finishChunk, textDeltaChunk } from './helpers.js';
+
+beforeEach(() => {
+  vi.stubEnv('AZURE_FOUNDRY_RESOURCE', '');
+  vi.stubEnv('AZURE_AI_FOUNDRY_ENDPOINT', '');
+  vi.stubEnv('AZURE_FOUNDRY_API_KEY', '');
+});
+afterEach(() => vi.unstubAllEnvs());
+
+const PROMPT = [{ role: 'user' as const, content: [{ type: 'text' as const, text: 'hi' }] }];
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Rejects with the signal's reason when it aborts, like a real fetch. */
+function abortable(signal: AbortSignal | null | undefined): Promise<never> {
+  return new Promise((_, reject) => {
+    if (signal?.aborted) reject(signal.reason);
+    signal?.addEventListener('abort', () => reject(signal.reason), { once: true });
+  });
+}
+
+/**
+ * A fetch whose response headers arrive after `headerDelayMs` and whose SSE
+ * chunks are each sent after their `delayMs`. The body stays open (stalled)
+ * once the chunks run out unless `close` is set.
+ */
+function slowFetch({
+  headerDelayMs = 0,
+  chunks = [] as Array<{ delayMs: number; data: unknown }>,
+  close = false,
+} = {}) {
+  let bodySignal: AbortSignal | undefined;
+  const fetch = async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+    bodySignal = init?.signal ?? undefined;
+    await Promise.race([sleep(headerDelayMs), abortable(init?.signal)]);
+    const encoder = new TextEncoder();
+    const body = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        for (const chunk of chunks) {
+          await sleep(chunk.delayMs);
+          if (bodySignal?.aborted) return;
+          controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk.data)}\n\n`));
+        }
+        if (close) {
+          controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+          controller.close();
+        }
+      },
+    });
+    return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+  };
+  return { fetch: fetch as typeof globalThis.fetch, aborted: () => bodySignal?.aborted ?? false };
+}
+
+function foundryWith(fetch: typeof globalThis.fetch, settings: Partial<AzureFoundryProviderSettings> = {}) {
+  return createAzureFoundry({
+    endpoint: 'https://test.cognitiveservices.azure.com',
+    apiKey: 'k',
+    fetch,
+    ...settings,
+  });
+}
+
+async function collect(stream: ReadableStream<LanguageModelV3StreamPart>) {
+  const parts: LanguageModelV3StreamPart[] = [];
+  for await (const part of stream) parts.push(part);
+  return parts;
+}
+
+describe('timeouts — doGenerate', () => {
+  it('rejects with AzureFoundryTimeoutError when requestTimeoutMs elapses', async () => {
+    const fetch = (async (_: RequestInfo | URL, init?: RequestInit) => {
+      await Promise.race([sleep(1_000), abortable(init?.signal)]);
+      return new Response(JSON.stringify(chatResponse('late')));
+    }) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { requestTimeoutMs: 20 });
+
+    const error = await foundry('gpt-test').doGenerate({ prompt: PROMPT }).catch((e) => e);
+    expect(AzureFoundryTimeoutError.isInstance(error)).toBe(true);
+    expect(error.kind).toBe('request');
+    expect(error.timeoutMs).toBe(20);
+    expect(error.url).toContain('/openai/deployments/gpt-test/chat/completions');
+  });
+
+  it('lets the model setting override the provider timeout', async () => {
+    const fetch = (async (_: RequestInfo | URL, init?: RequestInit) => {
+      await Promise.race([sleep(40), abortable(init?.signal)]);
+      return new Response(JSON.stringify(chatResponse('ok')), {
+        headers: { 'Content-Type': 'application/json' },
+      });
+    }) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { requestTimeoutMs: 10 });
+
+    const result = await foundry('gpt-test', { requestTimeoutMs: 1_000 }).doGenerate({ prompt: PROMPT });
+    expect(result.content).toEqual([{ type: 'text', text: 'ok' }]);
+  });
+
+  it('still honours the caller abort signal', async () => {
+    const fetch = (async (_: RequestInfo | URL, init?: RequestInit) => {
+      await abortable(init?.signal);
+      return new Response('');
+    }) as typeof globalThis.fetch;
+    const foundry = foundryWith(fetch, { requestTimeoutMs: 1_000 });
+
+    const controller = new AbortController();
+    const pending = foundry('gpt-test').doGenerate({ prompt: PROMPT, abortSignal: controller.signal });
+    controller.abort(new Error('caller cancelled'));
+    const error = await pending.catch((e) => e);
+    expect(AzureFoundryTimeoutError.isInstance(error)).toBe(false);
+    expect(error.message).toContain('caller cancelled');
+  });
+});
+
+describe('timeouts — doStream', () => {
+  it('rejects when the first chunk does not arrive before headers do', async () => {
+    const { fetch } = slowFetch({ headerDelayMs: 1_000 });
+    const foundry = foundryWith(fetch, { firstChunkTimeoutMs: 20 });
+    const error = await foundry('gpt-test').doStream({ prompt: PROMPT }).catch((e) => e);
+    expect(AzureFoundryTimeoutError.isInstance(error)).toBe(true);
+    expect(error.kind).toBe('first-chunk');
+  });
+
+  it('ends the stream with an error part when the first chunk is late', async () => {
+    const slow = slowFetch({ chunks: [{ delayMs: 1_000, data: textDeltaChunk('late') }] });
+    const foundry = foundryWith(slow.fetch, { firstChunkTimeoutMs: 30 });
+    const { stream } = await foundry('gpt-test').doStream({ prompt: PROMPT });
+
+    const parts = await collect(stream);
+    const last = parts[parts.length - 1];
+    expect(last.type).toBe('error');
+    expect(AzureFoundryTimeoutError.isInstance((last as { error: unknown }).error)).toBe(true);
+    expect(((last as { error: AzureFoundryTimeoutError }).error).kind).toBe('first-chunk');
+    expect(slow.aborted()).toBe(true);
+  });
+
+  it('ends a stalled stream with a stream-idle error part', async () => {
+    const slow = slowFetch({ chunks: [{ delayMs: 0, data: textDeltaChunk('Hel') }] });
+    const foundry = foundryWith(slow.fetch, { streamIdleTimeoutMs: 30 });
+    const { stream } = await foundry('gpt-test').doStream({ prompt: PROMPT });
+
+    const parts = await collect(stream);
+    expect(parts.some((p) => p.type === 'text-delta')).toBe(true);
+    const last = parts[parts.length - 1] as { type: string; error: AzureFoundryTimeoutError };
+    expect(last.type).toBe('error');
+    expect(last.error.kind).toBe('stream-idle');
+    expect(slow.aborted()).toBe(true);
+  });
+
+  it('does not fire once the stream completes', async () => {
+    const slow = slowFetch({
+      close: true,
+      chunks: [
+        { delayMs: 5, data: textDeltaChunk('Hi') },
+        { delayMs: 5, data: finishChunk('stop', { prompt_tokens: 1, completion_tokens: 1 }) },
+      ],
+    });
+    const foundry = foundryWith(slow.fetch, {
+      requestTimeoutMs: 40,
+      firstChunkTimeoutMs: 40,
+      streamIdleTimeoutMs: 40,
+    });
+    const { stream } = await foundry('gpt-test').doStream({ prompt: PROMPT });
+    const parts = await collect(stream);
+    expect(parts[parts.length - 1].type).toBe('finish');
+
+    await sleep(60);
+    expect(slow.aborted()).toBe(false);
+  });
+
+  it('counts stream-idle timeouts towards the circuit breaker', async () => {
+    const onStateChange = vi.fn();
+    const slow = slowFetch({ chunks: [{ delayMs: 0, data: textDeltaChunk('Hel') }] });
+    const foundry = foundryWith(slow.fetch, {
+      streamIdleTimeoutMs: 20,
+      circuitBreaker: { failureThreshold: 1, onStateChange },
+    });
+    const { stream } = await foundry('gpt-test').doStream({ prompt: PROMPT });
+    await collect(stream);
+    expect(onStateChange).toHaveBeenCalledWith(expect.objectContaining({ to: 'open' }));
+  });
+
+  it('stops the deadlines when the consumer cancels mid-stream', async () => {
+    const onStateChange = vi.fn();
+    const slow = slowFetch({ chunks: [{ delayMs: 0, data: textDeltaChunk('Hel') }] });
+    const foundry = foundryWith(slow.fetch, {
+      streamIdleTimeoutMs: 20,
+      circuitBreaker: { failureThreshold: 1, onStateChange },
+    });
+    const { stream } = await foundry('gpt-test').doStream({ prompt: PROMPT });
+    const reader = stream.getReader();
+    await reader.read(); // stream-start
+    await reader.read(); // first chunk
+    await reader.cancel();
+
+    await sleep(60);
+    expect(onStateChange).not.toHaveBeenCalled();
+    await expect(foundry('gpt-test').doStream({ prompt: PROMPT })).resolves.toBeDefined();
+  });
+});
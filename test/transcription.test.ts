@@ -0,0 +1,139 @@
+/**
+ * Unit tests for AzureFoundryTranscriptionModel.doGenerate — no real Azure deps.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { createAzureFoundry } from '../src/index.js';
+import type { AzureFoundryTranscriptionSettings } from '../src/index.js';
+import { fakeCredential, fakeFetch, fakeErrorFetch } from './helpers.js';
+
+const ENDPOINT = 'https://my-resource.cognitiveservices.azure.com';
+
+const AUDIO = new Uint8Array([0x52, 0x49, 0x46, 0x46]);
+
+function makeModel(
+  fetch: typeof globalThis.fetch,
+  modelId = 'whisper',
+  settings: AzureFoundryTranscriptionSettings = {},
+  endpoint = ENDPOINT,
+) {
+  return createAzureFoundry({ endpoint, credential: fakeCredential(), fetch }).transcriptionModel(modelId, settings);
+}
+
+const verboseResponse = {
+  task: 'transcribe',
+  language: 'english',
+  duration: 4.2,
+  text: 'Hello team. Let us begin.',
+  segments: [
+    { id: 0, text: 'Hello team.', start: 0, end: 1.5 },
+    { id: 1, text: 'Let us begin.', start: 1.5, end: 4.2 },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// URL routing
+// ---------------------------------------------------------------------------
+
+describe('transcriptionModel — URL routing', () => {
+  it('cognitiveservices endpoint uses the deployment audio/transcriptions route', async () => {
+    const { fetch, requests } = fakeFetch(verboseResponse);
+    await makeModel(fetch).doGenerate({ audio: AUDIO, mediaType: 'audio/wav' });
+
+    expect(requests[0].url).toBe(
+      'https://my-resource.cognitiveservices.azure.com/openai/deployments/whisper/audio/transcriptions?api-version=2024-10-21',
+    );
+    expect(requests[0].body).not.toHaveProperty('model');
+    expect(requests[0].headers['authorization']).toBe('Bearer fake-token');
+  });
+
+  it('services.ai.azure.com endpoint uses /models/audio/transcriptions with a model form field', async () => {
+    const { fetch, requests } = fakeFetch(verboseResponse);
+    await makeModel(fetch, 'whisper', {}, 'https://my-resource.services.ai.azure.com/models')
+      .doGenerate({ audio: AUDIO, mediaType: 'audio/wav' });
+
+    expect(requests[0].url).toBe('https://my-resource.services.ai.azure.com/models/audio/transcriptions');
+    expect(requests[0].body).toHaveProperty('model', 'whisper');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Request shape
+// ---------------------------------------------------------------------------
+
+describe('transcriptionModel — request shape', () => {
+  it('posts the audio as a multipart file with verbose_json for Whisper', async () => {
+    const { fetch, requests } = fakeFetch(verboseResponse);
+    await makeModel(fetch, 'whisper', { language: 'en', temperature: 0.2 })
+      .doGenerate({ audio: AUDIO, mediaType: 'audio/wav' });
+
+    const body = requests[0].body as Record<string, unknown>;
+    expect(body.file).toBeInstanceOf(Blob);
+    expect((body.file as File).name).toBe('audio.wav');
+    expect(body).toMatchObject({
+      response_format: 'verbose_json',
+      language: 'en',
+      temperature: '0.2',
+      'timestamp_granularities[]': 'segment',
+    });
+  });
+
+  it('accepts base64-encoded audio', async () => {
+    const { fetch, requests } = fakeFetch(verboseResponse);
+    await makeModel(fetch).doGenerate({
+      audio: Buffer.from(AUDIO).toString('base64'),
+      mediaType: 'audio/mpeg',
+    });
+
+    const file = (requests[0].body as Record<string, unknown>).file as Blob;
+    expect(new Uint8Array(await file.arrayBuffer())).toEqual(AUDIO);
+  });
+
+  it('uses json for gpt-4o-transcribe and warns when verbose_json is forced', async () => {
+    const { fetch, requests } = fakeFetch({ text: 'hi' });
+    const result = await makeModel(fetch, 'gpt-4o-transcribe', { responseFormat: 'verbose_json' })
+      .doGenerate({ audio: AUDIO, mediaType: 'audio/wav' });
+
+    expect(requests[0].body).toHaveProperty('response_format', 'json');
+    expect(requests[0].body).not.toHaveProperty('timestamp_granularities[]');
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Response parsing
+// ---------------------------------------------------------------------------
+
+describe('transcriptionModel — response parsing', () => {
+  it('maps text, segments, language and duration', async () => {
+    const { fetch } = fakeFetch(verboseResponse);
+    const result = await makeModel(fetch).doGenerate({ audio: AUDIO, mediaType: 'audio/wav' });
+
+    expect(result.text).toBe('Hello team. Let us begin.');
+    expect(result.segments).toEqual([
+      { text: 'Hello team.', startSecond: 0, endSecond: 1.5 },
+      { text: 'Let us begin.', startSecond: 1.5, endSecond: 4.2 },
+    ]);
+    expect(result.language).toBe('en');
+    expect(result.durationInSeconds).toBe(4.2);
+  });
+
+  it('returns empty segments and undefined duration for plain json responses', async () => {
+    const { fetch } = fakeFetch({ text: 'hi' });
+    const result = await makeModel(fetch, 'gpt-4o-mini-transcribe')
+      .doGenerate({ audio: AUDIO, mediaType: 'audio/wav' });
+
+    expect(result.text).toBe('hi');
+    expect(result.segments).toEqual([]);
+    expect(result.language).toBeUndefined();
+    expect(result.durationInSeconds).toBeUndefined();
+  });
+
+  it('throws with the Azure error message on failure', async () => {
+    const { fetch } = fakeErrorFetch({ error: { message: 'Invalid file format' } }, 400);
+
+    await expect(
+      makeModel(fetch).doGenerate({ audio: AUDIO, mediaType: 'audio/wav' }),
+    ).rejects.toThrow('Invalid file format');
+  });
+});